@@ -20,7 +20,7 @@ console.log(`📦 Building Letta Code SDK v${version}...`);
 
 // Bundle with Bun
 await Bun.build({
-  entrypoints: ["./src/index.ts"],
+  entrypoints: ["./src/index.ts", "./src/testing.ts"],
   outdir: "./dist",
   target: "node",
   format: "esm",
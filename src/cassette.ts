@@ -0,0 +1,343 @@
+/**
+ * Record / Replay Transports
+ *
+ * RecordingTransport wraps another transport and captures every wire message
+ * in both directions (with timing) to a JSONL cassette. ReplayTransport feeds
+ * a cassette back into a Session and verifies that the SDK's outbound writes
+ * match what was recorded, for deterministic regression tests.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Transport, WireMessage } from "./types.js";
+
+// All logging gated behind DEBUG_SDK env var
+function cassetteLog(tag: string, ...args: unknown[]) {
+  if (process.env.DEBUG_SDK) console.error(`[SDK-Cassette] [${tag}]`, ...args);
+}
+
+/**
+ * One line of a cassette.
+ *
+ * - "sent": written by the SDK to the CLI
+ * - "received": emitted by the CLI to the SDK
+ */
+export interface CassetteEntry {
+  direction: "sent" | "received";
+  /** Milliseconds since the transport connected */
+  elapsedMs: number;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Parse a JSONL cassette file into entries
+ */
+export function readCassette(path: string): CassetteEntry[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as CassetteEntry);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════
+
+export interface RecordingTransportOptions {
+  /** JSONL file to write. Truncated on connect; omit to record in memory only. */
+  path?: string;
+  /** Rewrite each message before it is stored (e.g. to redact secrets) */
+  sanitize?: (message: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Transport decorator that records all traffic through an inner transport.
+ *
+ * @example
+ * ```typescript
+ * const session = createSession(agentId, {
+ *   transport: (opts) =>
+ *     new RecordingTransport(new SubprocessTransport(opts), { path: "turn.jsonl" }),
+ * });
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  /** Every recorded entry, in order */
+  readonly entries: CassetteEntry[] = [];
+  private startedAt = 0;
+
+  constructor(
+    private inner: Transport,
+    private options: RecordingTransportOptions = {},
+  ) {}
+
+  async connect(): Promise<void> {
+    this.startedAt = Date.now();
+    if (this.options.path) {
+      mkdirSync(dirname(this.options.path), { recursive: true });
+      writeFileSync(this.options.path, "");
+    }
+    await this.inner.connect();
+  }
+
+  async write(data: object): Promise<void> {
+    this.record("sent", data as Record<string, unknown>);
+    await this.inner.write(data);
+  }
+
+  async *messages(): AsyncGenerator<WireMessage> {
+    for await (const msg of this.inner.messages()) {
+      this.record("received", msg as unknown as Record<string, unknown>);
+      yield msg;
+    }
+  }
+
+  close(): void {
+    this.inner.close();
+  }
+
+  get isClosed(): boolean {
+    return this.inner.isClosed;
+  }
+
+  private record(direction: CassetteEntry["direction"], message: Record<string, unknown>): void {
+    // Deep copy so later mutation (e.g. index-to-ID patching) doesn't leak in
+    const copy = JSON.parse(JSON.stringify(message)) as Record<string, unknown>;
+    const entry: CassetteEntry = {
+      direction,
+      elapsedMs: Date.now() - this.startedAt,
+      message: this.options.sanitize ? this.options.sanitize(copy) : copy,
+    };
+    this.entries.push(entry);
+    if (this.options.path) {
+      appendFileSync(this.options.path, JSON.stringify(entry) + "\n");
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REPLAY
+// ═══════════════════════════════════════════════════════════════
+
+export interface ReplayTransportOptions {
+  /**
+   * "instant" (default) emits received messages as soon as they are due;
+   * "recorded" waits out the recorded gaps between them.
+   */
+  timing?: "instant" | "recorded";
+  /**
+   * Normalize a sent message before comparison. Applied to both the recorded
+   * and the actual message. The default drops SDK-generated request IDs,
+   * which embed timestamps.
+   */
+  normalize?: (message: Record<string, unknown>) => unknown;
+}
+
+function defaultNormalize(message: Record<string, unknown>): unknown {
+  if (message.type === "control_request") {
+    const { request_id: _requestId, ...rest } = message;
+    return rest;
+  }
+  return message;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value as Record<string, unknown>)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort();
+    return `{${keys
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Transport that replays a cassette instead of talking to a CLI.
+ *
+ * Received entries are emitted in order; each sent entry blocks replay until
+ * the SDK writes a matching message. A mismatching write is rejected and
+ * recorded in `mismatches`. Request IDs the SDK generates for its own control
+ * requests are remapped so recorded control_responses still reach their
+ * waiters.
+ *
+ * @example
+ * ```typescript
+ * const replay = new ReplayTransport("fixtures/approval.jsonl");
+ * const session = createSession(agentId, { transport: replay, canUseTool });
+ * await session.send("Run ls");
+ * for await (const _ of session.stream()) {}
+ * replay.assertComplete();
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  /** Human-readable descriptions of every write that did not match */
+  readonly mismatches: string[] = [];
+
+  private entries: CassetteEntry[];
+  private cursor = 0;
+  private queue: WireMessage[] = [];
+  private resolvers: Array<(msg: WireMessage | null) => void> = [];
+  private closed = false;
+  private pumping = false;
+  private requestIdMap = new Map<string, string>();
+
+  constructor(
+    cassette: string | CassetteEntry[],
+    private options: ReplayTransportOptions = {},
+  ) {
+    this.entries = typeof cassette === "string" ? readCassette(cassette) : [...cassette];
+  }
+
+  /** Whether every entry in the cassette has been replayed or matched */
+  get isComplete(): boolean {
+    return this.cursor >= this.entries.length;
+  }
+
+  /**
+   * Throw if any write mismatched or the cassette was not fully consumed
+   */
+  assertComplete(): void {
+    if (this.mismatches.length > 0) {
+      throw new Error(`Replay mismatches:\n${this.mismatches.join("\n")}`);
+    }
+    if (!this.isComplete) {
+      const next = this.entries[this.cursor]!;
+      throw new Error(
+        `Replay incomplete: stopped at entry ${this.cursor + 1}/${this.entries.length} ` +
+          `(waiting for ${next.direction} ${stableStringify(next.message).slice(0, 200)})`,
+      );
+    }
+  }
+
+  async connect(): Promise<void> {
+    void this.pump();
+  }
+
+  async write(data: object): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport not connected (closed=true)");
+    }
+    const actual = data as Record<string, unknown>;
+    const expected = this.entries[this.cursor];
+
+    if (!expected || expected.direction !== "sent") {
+      const msg = `entry ${this.cursor + 1}: unexpected write ${stableStringify(actual).slice(0, 200)}`;
+      this.mismatches.push(msg);
+      cassetteLog("write", msg);
+      throw new Error(`Replay mismatch at ${msg}`);
+    }
+
+    const normalize = this.options.normalize ?? defaultNormalize;
+    const want = stableStringify(normalize(expected.message));
+    const got = stableStringify(normalize(actual));
+    if (want !== got) {
+      const msg = `entry ${this.cursor + 1}: expected ${want.slice(0, 300)} but got ${got.slice(0, 300)}`;
+      this.mismatches.push(msg);
+      cassetteLog("write", msg);
+      throw new Error(`Replay mismatch at ${msg}`);
+    }
+
+    const recordedId = expected.message.request_id;
+    const actualId = actual.request_id;
+    if (typeof recordedId === "string" && typeof actualId === "string") {
+      this.requestIdMap.set(recordedId, actualId);
+    }
+
+    this.cursor++;
+    void this.pump();
+  }
+
+  async *messages(): AsyncGenerator<WireMessage> {
+    while (true) {
+      const msg = await this.read();
+      if (msg === null) {
+        return;
+      }
+      yield msg;
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const resolve of this.resolvers) {
+      resolve(null);
+    }
+    this.resolvers = [];
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Emit received entries up to the next sent entry
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      return;
+    }
+    this.pumping = true;
+    try {
+      while (!this.closed && this.cursor < this.entries.length) {
+        const entry = this.entries[this.cursor]!;
+        if (entry.direction === "sent") {
+          return;
+        }
+        if (this.options.timing === "recorded") {
+          const prev = this.entries[this.cursor - 1];
+          const gap = entry.elapsedMs - (prev?.elapsedMs ?? 0);
+          if (gap > 0) {
+            await new Promise((resolve) => setTimeout(resolve, gap));
+          }
+        }
+        this.cursor++;
+        this.deliver(this.remapRequestId(entry.message));
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private remapRequestId(message: Record<string, unknown>): Record<string, unknown> {
+    if (message.type !== "control_response") {
+      return message;
+    }
+    const response = message.response as Record<string, unknown> | undefined;
+    const mapped = response && this.requestIdMap.get(response.request_id as string);
+    if (!mapped) {
+      return message;
+    }
+    return { ...message, response: { ...response, request_id: mapped } };
+  }
+
+  private deliver(message: Record<string, unknown>): void {
+    // Copy so the session's in-place patching can't corrupt the cassette
+    const msg = JSON.parse(JSON.stringify(message)) as WireMessage;
+    if (this.resolvers.length > 0) {
+      const resolve = this.resolvers.shift()!;
+      resolve(msg);
+      return;
+    }
+    this.queue.push(msg);
+  }
+
+  private async read(): Promise<WireMessage | null> {
+    if (this.queue.length > 0) {
+      return this.queue.shift()!;
+    }
+    if (this.closed) {
+      return null;
+    }
+    return new Promise((resolve) => {
+      this.resolvers.push(resolve);
+    });
+  }
+}
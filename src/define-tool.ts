@@ -0,0 +1,97 @@
+/**
+ * defineTool
+ *
+ * Builds an AgentTool from a Standard Schema (Zod, Valibot, ArkType, ...),
+ * TypeBox or plain JSON Schema, with `execute` args typed from the schema.
+ */
+
+import { ToolParamError } from "./tool-helpers.js";
+import type {
+  AgentTool,
+  DefineToolOptions,
+  InferToolArgs,
+  StandardSchemaV1,
+  StandardSchemaV1Issue,
+} from "./types.js";
+
+function isStandardSchema(schema: unknown): schema is StandardSchemaV1 {
+  return (
+    !!schema &&
+    (typeof schema === "object" || typeof schema === "function") &&
+    "~standard" in schema
+  );
+}
+
+function formatIssuePath(path: StandardSchemaV1Issue["path"]): string {
+  if (!path || path.length === 0) return "(root)";
+  return path
+    .map((segment) => String(typeof segment === "object" ? segment.key : segment))
+    .join(".");
+}
+
+/**
+ * Resolve the JSON Schema to register with the CLI
+ */
+function resolveParameters(name: string, schema: unknown, explicit?: Record<string, unknown>): unknown {
+  if (explicit) {
+    return explicit;
+  }
+  if (!isStandardSchema(schema)) {
+    // TypeBox / plain JSON Schema
+    return schema;
+  }
+  const standard = schema["~standard"];
+  if (standard.jsonSchema) {
+    return standard.jsonSchema.input({ target: "draft-2020-12" });
+  }
+  throw new Error(
+    `Cannot derive JSON Schema for tool '${name}' from a ${standard.vendor} schema. ` +
+      `Pass 'parameters' explicitly (e.g. z.toJSONSchema(schema)).`,
+  );
+}
+
+/**
+ * Define an external tool with schema-typed arguments.
+ *
+ * Standard Schemas validate (and transform) arguments before `execute` runs;
+ * failures are reported to the model as a tool error.
+ *
+ * @example
+ * ```typescript
+ * const weather = defineTool({
+ *   name: "get_weather",
+ *   description: "Current weather for a city",
+ *   schema: z.object({ city: z.string(), units: z.enum(["c", "f"]).default("c") }),
+ *   execute: async (_id, { city, units }) => jsonResult(await fetchWeather(city, units)),
+ * });
+ * const session = createSession(agentId, { tools: [weather] });
+ * ```
+ */
+export function defineTool<S, TDetails = unknown>(
+  options: DefineToolOptions<S, TDetails>,
+): AgentTool<unknown, TDetails> {
+  const { name, description, schema, execute } = options;
+
+  return {
+    name,
+    label: options.label ?? name,
+    description,
+    parameters: resolveParameters(name, schema, options.parameters),
+    execute: async (toolCallId, args, signal, onUpdate) => {
+      if (!isStandardSchema(schema)) {
+        return execute(toolCallId, args as InferToolArgs<S>, signal, onUpdate);
+      }
+
+      const result = await schema["~standard"].validate(args);
+      if (result.issues) {
+        // Reported to the model like JSON Schema validation failures, one issue per line
+        const [first] = result.issues;
+        throw new ToolParamError(
+          formatIssuePath(first?.path),
+          result.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message}`).join("\n- "),
+        );
+      }
+      return execute(toolCallId, result.value as InferToolArgs<S>, signal, onUpdate);
+    },
+  };
+}
@@ -40,9 +40,12 @@ export type {
   SDKInitMessage,
   SDKAssistantMessage,
   SDKToolCallMessage,
+  SDKToolCallDeltaMessage,
   SDKToolResultMessage,
+  SDKToolProgressMessage,
   SDKReasoningMessage,
   SDKResultMessage,
+  SDKPermissionInterrupt,
   SDKStreamEventMessage,
   SDKStreamEventPayload,
   SDKStreamEventDeltaPayload,
@@ -56,7 +59,10 @@ export type {
   SleeptimeBehavior,
   EffectiveSleeptimeSettings,
   PermissionMode,
+  StreamBufferPolicy,
+  StreamMessageDroppedCallback,
   CanUseToolCallback,
+  CanUseToolContext,
   CanUseToolResponse,
   CanUseToolResponseAllow,
   CanUseToolResponseDeny,
@@ -65,6 +71,16 @@ export type {
   ImageContent,
   MessageContentItem,
   SendMessage,
+  // Turn API
+  TurnControlOptions,
+  RunOptions,
+  TurnResult,
+  TurnToolCall,
+  TurnTimings,
+  OutputSchema,
+  InferOutput,
+  SchemaIssue,
+  StructuredOutputError,
   // List messages API
   ListMessagesOptions,
   ListMessagesResult,
@@ -77,20 +93,82 @@ export type {
   AgentToolResultContent,
   AgentToolUpdateCallback,
   AnyAgentTool,
+  DefineToolOptions,
+  InferToolArgs,
+  ToolExecutionContext,
+  ToolMiddleware,
+  StandardSchemaV1,
+  StandardSchemaV1Issue,
+  StandardSchemaV1Result,
+  // Permission policy types
+  PermissionEffect,
+  PermissionRuleMatch,
+  PermissionRule,
+  PermissionTraceEntry,
+  PermissionDecision,
+  PermissionPolicyOptions,
+  PermissionUpdate,
+  PermissionUpdateDestination,
+  PermissionRuleValue,
+  CanUseToolCallbackResult,
+  PermissionDecisionMechanism,
+  PermissionAuditRecord,
+  PermissionDecisionHook,
+  // Transport types
+  Transport,
+  TransportFactory,
 } from "./types.js";
 
 export { Session } from "./session.js";
 
+export { SubprocessTransport } from "./transport.js";
+
+// Record / replay
+export {
+  RecordingTransport,
+  ReplayTransport,
+  readCassette,
+} from "./cassette.js";
+export type {
+  CassetteEntry,
+  RecordingTransportOptions,
+  ReplayTransportOptions,
+} from "./cassette.js";
+
 export { extractStreamTextDelta } from "./stream-events.js";
 
+export { ToolCallAccumulator } from "./tool-call-accumulator.js";
+
+export { PermissionPolicy } from "./permission-policy.js";
+export { createJsonlAuditSink } from "./permission-audit.js";
+
 // Tool helpers
+export { defineTool } from "./define-tool.js";
+export { mcpTools } from "./mcp.js";
+export type { McpServerOptions } from "./mcp.js";
+export { toolsFromOpenAPI } from "./openapi.js";
+export type { OpenAPIAuth, OpenAPIOperationInfo, OpenAPIToolsOptions } from "./openapi.js";
 export {
   jsonResult,
+  textResult,
+  errorResult,
+  imageResult,
+  fileResult,
+  toolResult,
+  ToolResultBuilder,
   readStringParam,
   readNumberParam,
   readBooleanParam,
   readStringArrayParam,
+  readEnumParam,
+  readIntegerParam,
+  readDateParam,
+  readNumberArrayParam,
+  readJsonParam,
+  readObjectParam,
+  ToolParamError,
 } from "./tool-helpers.js";
+export type { FileResultDetails, ParamOptions, StringParamOptions } from "./tool-helpers.js";
 
 /**
  * Create a new agent with a default conversation.
@@ -196,27 +274,8 @@ export async function prompt(
     : createSession();
 
   try {
-    await session.send(message);
-
-    let result: SDKResultMessage | null = null;
-    for await (const msg of session.stream()) {
-      if (msg.type === "result") {
-        result = msg;
-        break;
-      }
-    }
-
-    if (!result) {
-      return {
-        type: "result",
-        success: false,
-        error: "No result received",
-        durationMs: 0,
-        conversationId: session.conversationId,
-      };
-    }
-
-    return result;
+    const turn = await session.run(message);
+    return turn.result;
   } finally {
     session.close();
   }
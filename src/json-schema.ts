@@ -0,0 +1,452 @@
+/**
+ * JSON Schema Validation
+ *
+ * A small, dependency-free validator for the JSON Schema subset agents and
+ * tools actually use. TypeBox schemas are plain JSON Schema objects, so they
+ * validate the same way.
+ */
+
+import type { SchemaIssue } from "./types.js";
+
+type Schema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// `$id` lookup tables, built once per root schema
+const schemaIdsByRoot = new WeakMap<Schema, Map<string, Schema>>();
+
+function resolveRef(root: Schema, ref: string): Schema | null {
+  if (!ref.startsWith("#")) {
+    // TypeBox-style reference to a schema's `$id`
+    let ids = schemaIdsByRoot.get(root);
+    if (!ids) {
+      ids = new Map();
+      collectSchemaIds(root, ids);
+      schemaIdsByRoot.set(root, ids);
+    }
+    return ids.get(ref) ?? null;
+  }
+  let node: unknown = root;
+  for (const raw of ref.slice(1).split("/").filter(Boolean)) {
+    const key = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!node || typeof node !== "object") return null;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node && typeof node === "object" ? (node as Schema) : null;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a `pattern` keyword. JSON Schema patterns are ECMA-262 regexes, but
+ * many (e.g. `\-` escapes) are only valid without the `u` flag, so fall back
+ * to that. Returns null when the pattern doesn't compile at all.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let compiled = patternCache.get(pattern);
+  if (compiled !== undefined) return compiled;
+  try {
+    compiled = new RegExp(pattern, "u");
+  } catch {
+    try {
+      compiled = new RegExp(pattern);
+    } catch {
+      compiled = null;
+    }
+  }
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
+
+function validateNode(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  root: Schema,
+  issues: SchemaIssue[],
+): void {
+  if (schema === true || schema === undefined) return;
+  if (schema === false) {
+    issues.push({ path, message: "is not allowed" });
+    return;
+  }
+  if (!schema || typeof schema !== "object") return;
+  const s = schema as Schema;
+
+  if (typeof s.$ref === "string") {
+    const target = resolveRef(root, s.$ref);
+    if (!target) {
+      issues.push({ path, message: `unresolvable $ref ${s.$ref}` });
+      return;
+    }
+    validateNode(target, value, path, root, issues);
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      issues.push({ path, message: `expected ${types.join(" | ")}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((e) => deepEqual(e, value))) {
+    issues.push({
+      path,
+      message: `must be one of ${s.enum.map((e) => JSON.stringify(e)).join(", ")}`,
+    });
+  }
+  if ("const" in s && !deepEqual(s.const, value)) {
+    issues.push({ path, message: `must equal ${JSON.stringify(s.const)}` });
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) validateNode(sub, value, path, root, issues);
+  }
+  if (Array.isArray(s.anyOf)) {
+    const ok = s.anyOf.some((sub) => validateSchema(sub, value, root).length === 0);
+    if (!ok) issues.push({ path, message: "does not match any allowed schema (anyOf)" });
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub) => validateSchema(sub, value, root).length === 0).length;
+    if (matches !== 1) {
+      issues.push({ path, message: `must match exactly one schema (oneOf), matched ${matches}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      issues.push({ path, message: `must have at least ${s.minLength} characters` });
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      issues.push({ path, message: `must have at most ${s.maxLength} characters` });
+    }
+    if (typeof s.pattern === "string") {
+      const pattern = compilePattern(s.pattern);
+      if (!pattern) {
+        issues.push({ path, message: `has an invalid schema pattern ${s.pattern}` });
+      } else if (!pattern.test(value)) {
+        issues.push({ path, message: `must match pattern ${s.pattern}` });
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) {
+      issues.push({ path, message: `must be >= ${s.minimum}` });
+    }
+    if (typeof s.maximum === "number" && value > s.maximum) {
+      issues.push({ path, message: `must be <= ${s.maximum}` });
+    }
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${s.exclusiveMinimum}` });
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      issues.push({ path, message: `must be < ${s.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      issues.push({ path, message: `must have at least ${s.minItems} items` });
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      issues.push({ path, message: `must have at most ${s.maxItems} items` });
+    }
+    if (s.items !== undefined && !Array.isArray(s.items)) {
+      value.forEach((item, i) => validateNode(s.items, item, `${path}/${i}`, root, issues));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (s.properties ?? {}) as Record<string, unknown>;
+    if (Array.isArray(s.required)) {
+      for (const key of s.required as string[]) {
+        if (!(key in obj)) issues.push({ path: `${path}/${key}`, message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in properties) {
+        validateNode(properties[key], child, `${path}/${key}`, root, issues);
+      } else if (s.additionalProperties === false) {
+        issues.push({ path: `${path}/${key}`, message: "is not an allowed property" });
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        validateNode(s.additionalProperties, child, `${path}/${key}`, root, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema, returning every violation found
+ * (empty when valid). `$ref`s resolve against `root`, which defaults to the
+ * schema itself.
+ */
+export function validateSchema(schema: unknown, value: unknown, root?: Schema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(schema, value, "", root ?? (schema as Schema), issues);
+  return issues;
+}
+
+/**
+ * Render issues as one line each, e.g. "/tags/0: expected string, got number"
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((i) => `${i.path || "(root)"}: ${i.message}`).join("\n");
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL PARAMETER CONVERSION
+// ═══════════════════════════════════════════════════════════════
+
+const TYPEBOX_KIND = Symbol.for("TypeBox.Kind");
+
+// TypeBox kinds that describe JavaScript values with no JSON representation
+const UNSUPPORTED_TYPEBOX_KINDS = new Set([
+  "AsyncIterator",
+  "BigInt",
+  "Constructor",
+  "Date",
+  "Function",
+  "Iterator",
+  "Promise",
+  "Symbol",
+  "Uint8Array",
+  "Undefined",
+  "Void",
+]);
+
+/**
+ * Copy a (possibly TypeBox) schema into plain JSON: symbol keys are dropped
+ * and non-JSON kinds or values are rejected.
+ */
+function toPlainSchema(node: unknown, path: string, fail: (msg: string) => never): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item, i) => toPlainSchema(item, `${path}/${i}`, fail));
+  }
+  if (node && typeof node === "object") {
+    const kind = (node as Record<symbol, unknown>)[TYPEBOX_KIND];
+    if (typeof kind === "string" && UNSUPPORTED_TYPEBOX_KINDS.has(kind)) {
+      fail(`${path || "(root)"} uses TypeBox ${kind}, which has no JSON Schema equivalent`);
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (value === undefined) continue;
+      out[key] = toPlainSchema(value, `${path}/${key}`, fail);
+    }
+    return out;
+  }
+  if (typeof node === "function" || typeof node === "bigint" || typeof node === "symbol") {
+    fail(`${path || "(root)"} contains a ${typeof node}, which is not valid JSON`);
+  }
+  return node;
+}
+
+function collectSchemaIds(node: unknown, ids: Map<string, Schema>): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectSchemaIds(item, ids);
+  } else if (node && typeof node === "object") {
+    const s = node as Schema;
+    if (typeof s.$id === "string") ids.set(s.$id, s);
+    for (const value of Object.values(s)) collectSchemaIds(value, ids);
+  }
+}
+
+/**
+ * Convert an external tool's `parameters` (TypeBox or plain JSON Schema) into
+ * the JSON Schema sent to the CLI.
+ *
+ * Everything is preserved (enum, oneOf/anyOf, items, format, default, ...).
+ * Local `$ref`s and TypeBox `$id` references are inlined; recursive references
+ * are kept as `$ref` together with the root `$defs`, with recursive `$id`
+ * references rewritten to `#/$defs/<id>` (or `#` for the root). Throws if the
+ * schema can't be expressed as a JSON object schema.
+ */
+export function toToolParametersSchema(schema: unknown, toolName: string): Record<string, unknown> {
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid parameters schema for tool '${toolName}': ${msg}`);
+  };
+
+  if (schema === undefined || schema === null) {
+    return { type: "object", properties: {} };
+  }
+  if (typeof schema !== "object" || Array.isArray(schema)) {
+    fail("expected a JSON Schema object");
+  }
+
+  const root = toPlainSchema(schema, "", fail) as Schema;
+  const ids = new Map<string, Schema>();
+  collectSchemaIds(root, ids);
+  let keptRecursiveRef = false;
+  // Recursive `$id` references are rewritten to local refs; these ids need a
+  // `$defs` entry (the root's own id becomes "#")
+  const recursiveIds: string[] = [];
+  const localRef = (id: string): string => {
+    if (ids.get(id) === root) return "#";
+    if (!recursiveIds.includes(id)) recursiveIds.push(id);
+    return `#/$defs/${id.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+  };
+
+  const inline = (node: unknown, path: string, expanding: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, i) => inline(item, `${path}/${i}`, expanding));
+    }
+    if (!node || typeof node !== "object") {
+      return node;
+    }
+
+    const { $ref, ...rest } = node as Schema;
+    if (typeof $ref === "string") {
+      if (expanding.includes($ref)) {
+        keptRecursiveRef = true;
+        if ($ref.startsWith("#")) return node;
+        return { ...(inline(rest, path, expanding) as Schema), $ref: localRef($ref) };
+      }
+      const target = $ref.startsWith("#") ? resolveRef(root, $ref) : ids.get($ref) ?? null;
+      if (!target) {
+        fail(`${path || "(root)"} references unknown schema '${$ref}'`);
+      }
+      const resolved = inline(target, path, [...expanding, $ref]) as Schema;
+      // Sibling keywords (e.g. description) refine the referenced schema
+      return { ...resolved, ...(inline(rest, path, expanding) as Schema) };
+    }
+
+    // A schema with an `$id` is being expanded while its own body is converted
+    const ownId = typeof rest.$id === "string" && !expanding.includes(rest.$id) ? [rest.$id] : [];
+    const out: Schema = {};
+    for (const [key, value] of Object.entries(rest)) {
+      // Definitions are inlined at their use sites instead, and `$id` refs are
+      // resolved here, so the ids themselves are dropped
+      if (path === "" && (key === "$defs" || key === "definitions")) continue;
+      if (key === "$id") continue;
+      out[key] = inline(value, `${path}/${key}`, [...expanding, ...ownId]);
+    }
+    return out;
+  };
+
+  const converted = inline(root, "", []) as Schema;
+  if (keptRecursiveRef) {
+    if (root.$defs !== undefined) converted.$defs = root.$defs;
+    if (root.definitions !== undefined) converted.definitions = root.definitions;
+  }
+  if (recursiveIds.length > 0) {
+    const defs: Schema = { ...((converted.$defs as Schema | undefined) ?? {}) };
+    // Converting a definition can reach further recursive ids
+    for (let i = 0; i < recursiveIds.length; i++) {
+      const id = recursiveIds[i]!;
+      defs[id] = inline(ids.get(id), `/$defs/${id}`, [id]);
+    }
+    converted.$defs = defs;
+  }
+
+  // An untyped schema like {} or { properties } is an object schema; one built
+  // from combinators or literals is not
+  const typeDefining = ["anyOf", "oneOf", "allOf", "not", "enum", "const"];
+  if (converted.type === undefined && !typeDefining.some((k) => k in converted)) {
+    converted.type = "object";
+  }
+  if (converted.type !== "object") {
+    fail(`top-level type must be "object" (got ${JSON.stringify(converted.type ?? null)})`);
+  }
+  return converted;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL ARGUMENT VALIDATION
+// ═══════════════════════════════════════════════════════════════
+
+function schemaTypes(s: Schema): string[] {
+  if (Array.isArray(s.type)) return s.type as string[];
+  return typeof s.type === "string" ? [s.type] : [];
+}
+
+/**
+ * Apply lossless coercions models commonly need: numeric and boolean strings,
+ * numbers/booleans where a string is expected, and property defaults.
+ * Returns a new value; the input is not mutated.
+ */
+function coerceNode(schema: unknown, value: unknown, root: Schema, depth: number): unknown {
+  if (!schema || typeof schema !== "object" || depth > 64) return value;
+  let s = schema as Schema;
+  if (typeof s.$ref === "string") {
+    const target = resolveRef(root, s.$ref);
+    if (!target) return value;
+    s = { ...target, ...s, $ref: undefined };
+  }
+
+  const types = schemaTypes(s);
+  if (types.length > 0 && !types.some((t) => matchesType(value, t))) {
+    if (typeof value === "string") {
+      const trimmed = value.trim();
+      const num = trimmed === "" ? NaN : Number(trimmed);
+      if (types.includes("integer") && Number.isInteger(num)) return num;
+      if (types.includes("number") && Number.isFinite(num)) return num;
+      if (types.includes("boolean") && (trimmed === "true" || trimmed === "false")) {
+        return trimmed === "true";
+      }
+    } else if (
+      types.includes("string") &&
+      (typeof value === "number" || typeof value === "boolean")
+    ) {
+      return String(value);
+    }
+    return value;
+  }
+
+  if (Array.isArray(value) && s.items && typeof s.items === "object" && !Array.isArray(s.items)) {
+    return value.map((item) => coerceNode(s.items, item, root, depth + 1));
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = { ...(value as Record<string, unknown>) };
+    const properties = (s.properties ?? {}) as Record<string, unknown>;
+    for (const [key, child] of Object.entries(properties)) {
+      if (key in obj) {
+        obj[key] = coerceNode(child, obj[key], root, depth + 1);
+      } else if (child && typeof child === "object" && "default" in child) {
+        obj[key] = structuredClone((child as Schema).default);
+      }
+    }
+    if (s.additionalProperties && typeof s.additionalProperties === "object") {
+      for (const key of Object.keys(obj)) {
+        if (!(key in properties)) {
+          obj[key] = coerceNode(s.additionalProperties, obj[key], root, depth + 1);
+        }
+      }
+    }
+    return obj;
+  }
+
+  return value;
+}
+
+/**
+ * Coerce then validate tool arguments against a tool's parameter schema.
+ */
+export function validateToolArguments(
+  schema: Record<string, unknown>,
+  input: unknown,
+): { ok: true; value: Record<string, unknown> } | { ok: false; issues: SchemaIssue[] } {
+  const value = coerceNode(schema, input ?? {}, schema, 0);
+  const issues = validateSchema(schema, value);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: value as Record<string, unknown> };
+}
@@ -0,0 +1,305 @@
+/**
+ * MCP Bridge
+ *
+ * Spawns a stdio Model Context Protocol server and exposes its tools as
+ * AgentTools, so they run through the SDK's external tool channel.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { AgentToolResult, AgentToolResultContent, AnyAgentTool } from "./types.js";
+
+// All logging gated behind DEBUG_SDK env var
+function mcpLog(tag: string, ...args: unknown[]) {
+  if (process.env.DEBUG_SDK) console.error(`[SDK-MCP] [${tag}]`, ...args);
+}
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * Options for mcpTools()
+ */
+export interface McpServerOptions {
+  /** Executable that starts the server */
+  command: string;
+  args?: string[];
+  /** Extra environment variables (merged over process.env) */
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Prepended to every tool name, e.g. "github_" */
+  prefix?: string;
+  /** Only expose these tools (by server-side name) */
+  include?: string[];
+  /** Timeout for each JSON-RPC request to the server in ms (default: 60000) */
+  requestTimeoutMs?: number;
+}
+
+interface McpToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+interface McpContentBlock {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  resource?: { uri?: string; text?: string; blob?: string; mimeType?: string };
+}
+
+interface McpCallToolResult {
+  content?: McpContentBlock[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Minimal JSON-RPC client for the MCP stdio transport (newline-delimited JSON)
+ */
+class McpStdioClient {
+  private process: ChildProcess | null = null;
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (err: Error) => void }
+  >();
+  private closed = false;
+
+  constructor(private options: McpServerOptions) {}
+
+  async connect(): Promise<void> {
+    const { command, args = [], env, cwd } = this.options;
+    mcpLog("connect", `spawning ${command} ${args.join(" ")}`);
+
+    this.process = spawn(command, args, {
+      cwd: cwd ?? process.cwd(),
+      stdio: ["pipe", "pipe", "pipe"],
+      env: { ...process.env, ...env },
+    });
+
+    const lines = createInterface({ input: this.process.stdout!, crlfDelay: Infinity });
+    lines.on("line", (line) => {
+      if (!line.trim()) return;
+      try {
+        this.handleMessage(JSON.parse(line) as JsonRpcMessage);
+      } catch {
+        mcpLog("stdout", `[non-JSON] ${line.slice(0, 500)}`);
+      }
+    });
+    this.process.stderr?.on("data", (data: Buffer) => {
+      mcpLog("stderr", data.toString().trim());
+    });
+    this.process.on("error", (err) => this.fail(new Error(`MCP server failed: ${err.message}`)));
+    this.process.on("close", (code) => this.fail(new Error(`MCP server exited (code ${code})`)));
+
+    await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "letta-code-sdk", version: "1.0.0" },
+    });
+    this.notify("notifications/initialized");
+  }
+
+  /**
+   * Send a request and wait for its result. Aborting `signal` rejects with its
+   * reason and tells the server to cancel the request.
+   */
+  request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown> {
+    if (this.closed || !this.process?.stdin) {
+      return Promise.reject(new Error("MCP server is not running"));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const id = this.nextId++;
+    const timeoutMs = this.options.requestTimeoutMs ?? 60_000;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(id);
+      };
+      const onAbort = () => {
+        settle();
+        mcpLog("request", `cancelling ${method} (id=${id})`);
+        this.notify("notifications/cancelled", { requestId: id, reason: String(signal?.reason ?? "aborted") });
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new Error(`MCP request ${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (err) => {
+          settle();
+          reject(err);
+        },
+      });
+      this.write({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.write({ jsonrpc: "2.0", method, params });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    mcpLog("close", `closing ${this.options.command}`);
+    this.fail(new Error("MCP server closed"));
+    this.process?.kill();
+  }
+
+  private write(message: JsonRpcMessage): void {
+    this.process?.stdin?.write(JSON.stringify(message) + "\n");
+  }
+
+  private handleMessage(msg: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (msg.id !== undefined && msg.method === undefined) {
+      const waiter = this.pending.get(msg.id as number);
+      if (!waiter) return;
+      this.pending.delete(msg.id as number);
+      if (msg.error) {
+        waiter.reject(new Error(`MCP error ${msg.error.code}: ${msg.error.message}`));
+      } else {
+        waiter.resolve(msg.result);
+      }
+      return;
+    }
+
+    // Server-initiated request: answer pings, decline everything else
+    if (msg.id !== undefined && msg.method) {
+      if (msg.method === "ping") {
+        this.write({ jsonrpc: "2.0", id: msg.id, result: {} });
+      } else {
+        this.write({
+          jsonrpc: "2.0",
+          id: msg.id,
+          error: { code: -32601, message: `Method not supported: ${msg.method}` },
+        });
+      }
+      return;
+    }
+
+    mcpLog("notification", msg.method);
+  }
+
+  private fail(err: Error): void {
+    this.closed = true;
+    for (const waiter of this.pending.values()) {
+      waiter.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Convert MCP content blocks to tool result content. Images pass through;
+ * other block types are rendered as text.
+ */
+function toToolContent(blocks: McpContentBlock[]): AgentToolResultContent[] {
+  return blocks.map((block): AgentToolResultContent => {
+    if (block.type === "text") {
+      return { type: "text", text: block.text ?? "" };
+    }
+    if (block.type === "image" && block.data) {
+      return { type: "image", data: block.data, mimeType: block.mimeType };
+    }
+    if (block.type === "resource" && block.resource?.text !== undefined) {
+      return { type: "text", text: block.resource.text };
+    }
+    return { type: "text", text: JSON.stringify(block) };
+  });
+}
+
+/**
+ * Start a stdio MCP server and wrap each of its tools as an AgentTool.
+ *
+ * Each tool carries a `dispose` hook that the Session calls on close.
+ * Disposing any of the tools shuts the server down, so passing only some of
+ * them to a session still stops it. Create a fresh set of tools per session.
+ *
+ * @example
+ * ```typescript
+ * const github = await mcpTools({
+ *   command: "npx",
+ *   args: ["-y", "@modelcontextprotocol/server-github"],
+ *   env: { GITHUB_TOKEN: process.env.GITHUB_TOKEN! },
+ *   prefix: "github_",
+ * });
+ * await using session = createSession(agentId, { tools: github });
+ * ```
+ */
+export async function mcpTools(options: McpServerOptions): Promise<AnyAgentTool[]> {
+  const client = new McpStdioClient(options);
+  try {
+    await client.connect();
+
+    const definitions: McpToolDefinition[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = (await client.request("tools/list", cursor ? { cursor } : {})) as {
+        tools?: McpToolDefinition[];
+        nextCursor?: string;
+      };
+      definitions.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const selected = options.include
+      ? definitions.filter((def) => options.include!.includes(def.name))
+      : definitions;
+    mcpLog("tools", `${options.command}: exposing ${selected.length}/${definitions.length} tools`);
+
+    if (selected.length === 0) {
+      client.close();
+      return [];
+    }
+
+    return selected.map((def): AnyAgentTool => {
+      return {
+        name: `${options.prefix ?? ""}${def.name}`,
+        label: def.title ?? def.name,
+        description: def.description ?? "",
+        parameters: def.inputSchema ?? { type: "object", properties: {} },
+        execute: async (_toolCallId, args, signal) => {
+          const result = (await client.request(
+            "tools/call",
+            { name: def.name, arguments: args ?? {} },
+            signal,
+          )) as McpCallToolResult;
+
+          // Error results keep all their content (including images)
+          return {
+            content: toToolContent(result.content ?? []),
+            details: result.structuredContent,
+            ...(result.isError ? { isError: true } : {}),
+          } satisfies AgentToolResult<unknown>;
+        },
+        // The tools share one server, owned by the session they were given to
+        dispose: () => client.close(),
+      };
+    });
+  } catch (err) {
+    client.close();
+    throw err;
+  }
+}
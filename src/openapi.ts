@@ -0,0 +1,368 @@
+/**
+ * OpenAPI Tools
+ *
+ * Turns an OpenAPI 3 document into AgentTools, one per operation. Each tool's
+ * parameters schema merges the operation's path/query/header parameters with
+ * its JSON request body, and execute() performs the HTTP request.
+ */
+
+import { jsonResult } from "./tool-helpers.js";
+import type { AnyAgentTool } from "./types.js";
+
+// All logging gated behind DEBUG_SDK env var
+function openapiLog(tag: string, ...args: unknown[]) {
+  if (process.env.DEBUG_SDK) console.error(`[SDK-OpenAPI] [${tag}]`, ...args);
+}
+
+type JsonObject = Record<string, unknown>;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"] as const;
+
+/**
+ * Credentials applied to every request
+ */
+export type OpenAPIAuth =
+  | { type: "bearer"; token: string }
+  | { type: "basic"; username: string; password: string }
+  | { type: "apiKey"; name: string; value: string; in?: "header" | "query" };
+
+/**
+ * Operation summary passed to an `include` filter
+ */
+export interface OpenAPIOperationInfo {
+  /** Tool name the operation is exposed as */
+  name: string;
+  operationId?: string;
+  method: string;
+  path: string;
+  tags: string[];
+}
+
+/**
+ * Options for toolsFromOpenAPI()
+ */
+export interface OpenAPIToolsOptions {
+  /** Server URL to call. Defaults to the document's first absolute `servers` entry. */
+  baseUrl?: string;
+  auth?: OpenAPIAuth;
+  /** Operations to expose, by operationId/tool name or predicate. Default: all. */
+  include?: string[] | ((operation: OpenAPIOperationInfo) => boolean);
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface OpenAPIParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  description?: string;
+  required?: boolean;
+  schema?: JsonObject;
+}
+
+interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: Array<OpenAPIParameter | { $ref: string }>;
+  requestBody?: JsonObject;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Resolve a local `#/...` reference object against the document
+ */
+function deref<T>(spec: JsonObject, value: unknown): T {
+  let node = value;
+  const seen = new Set<string>();
+  while (isObject(node) && typeof node.$ref === "string") {
+    const ref = node.$ref;
+    if (!ref.startsWith("#/") || seen.has(ref)) {
+      throw new Error(`Unsupported OpenAPI reference: ${ref}`);
+    }
+    seen.add(ref);
+    node = ref
+      .slice(2)
+      .split("/")
+      .reduce<unknown>(
+        (acc, raw) => (isObject(acc) ? acc[raw.replace(/~1/g, "/").replace(/~0/g, "~")] : undefined),
+        spec,
+      );
+    if (node === undefined) {
+      throw new Error(`Unresolvable OpenAPI reference: ${ref}`);
+    }
+  }
+  return node as T;
+}
+
+/**
+ * Apply OpenAPI's `nullable: true` to a converted schema: null is added to a
+ * plain `type` (and `enum`); refs, combinators and untyped schemas are wrapped
+ * in an anyOf with null.
+ */
+function allowNull(schema: JsonObject): JsonObject {
+  const { type } = schema;
+  const combined = ["$ref", "allOf", "anyOf", "oneOf"].some((key) => key in schema);
+  if ((typeof type === "string" || Array.isArray(type)) && !combined) {
+    const types = Array.isArray(type) ? type : [type];
+    const out: JsonObject = { ...schema, type: types.includes("null") ? types : [...types, "null"] };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      out.enum = [...schema.enum, null];
+    }
+    return out;
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+/**
+ * Rewrite an OpenAPI schema into plain JSON Schema: component references
+ * become `#/$defs/...` (collected into `defs`) and `nullable` becomes a
+ * union with null.
+ */
+function convertSchema(spec: JsonObject, schema: unknown, defs: JsonObject): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => convertSchema(spec, item, defs));
+  }
+  if (!isObject(schema)) {
+    return schema;
+  }
+
+  if (schema.nullable === true) {
+    const { nullable: _nullable, ...rest } = schema;
+    return allowNull(convertSchema(spec, rest, defs) as JsonObject);
+  }
+
+  if (typeof schema.$ref === "string") {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref);
+    if (!match) {
+      return convertSchema(spec, deref(spec, schema), defs);
+    }
+    const name = match[1]!;
+    if (!(name in defs)) {
+      defs[name] = true; // placeholder, so recursive references terminate
+      defs[name] = convertSchema(spec, deref(spec, schema), defs);
+    }
+    return { $ref: `#/$defs/${name}` };
+  }
+
+  const out: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "nullable" || key === "example" || key === "xml" || key === "externalDocs") continue;
+    if (key === "properties" && isObject(value)) {
+      out[key] = Object.fromEntries(
+        Object.entries(value).map(([prop, sub]) => [prop, convertSchema(spec, sub, defs)]),
+      );
+    } else {
+      out[key] = convertSchema(spec, value, defs);
+    }
+  }
+  return out;
+}
+
+function toolNameFor(method: string, path: string, operation: OpenAPIOperation): string {
+  const sanitize = (raw: string) => raw.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+  return operation.operationId ? sanitize(operation.operationId) : `${method}_${sanitize(path)}`;
+}
+
+function resolveBaseUrl(spec: JsonObject, options: OpenAPIToolsOptions): string {
+  if (options.baseUrl) {
+    return options.baseUrl.replace(/\/+$/, "");
+  }
+  const servers = Array.isArray(spec.servers) ? spec.servers : [];
+  for (const server of servers) {
+    if (isObject(server) && typeof server.url === "string" && /^https?:\/\//.test(server.url)) {
+      return server.url.replace(/\/+$/, "");
+    }
+  }
+  throw new Error("OpenAPI document has no absolute server URL. Pass 'baseUrl' explicitly.");
+}
+
+function authHeaders(auth: OpenAPIAuth | undefined): Record<string, string> {
+  if (!auth) return {};
+  switch (auth.type) {
+    case "bearer":
+      return { Authorization: `Bearer ${auth.token}` };
+    case "basic":
+      return {
+        Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString("base64")}`,
+      };
+    case "apiKey":
+      return auth.in === "query" ? {} : { [auth.name]: auth.value };
+  }
+}
+
+/**
+ * Create one AgentTool per operation in an OpenAPI 3 document.
+ *
+ * Arguments are named after the operation's parameters; a JSON request body
+ * is passed as `body`. Responses are returned with jsonResult(); non-2xx
+ * responses are reported to the model as tool errors. Throws if two included
+ * operations map to the same tool name.
+ *
+ * @example
+ * ```typescript
+ * const tools = toolsFromOpenAPI(spec, {
+ *   baseUrl: "https://billing.internal",
+ *   auth: { type: "bearer", token: process.env.BILLING_TOKEN! },
+ *   include: ["getInvoice", "listInvoices"],
+ * });
+ * ```
+ */
+export function toolsFromOpenAPI(spec: JsonObject, options: OpenAPIToolsOptions = {}): AnyAgentTool[] {
+  if (!isObject(spec) || typeof spec.openapi !== "string" || !spec.openapi.startsWith("3.")) {
+    throw new Error("Invalid OpenAPI document. Expected an OpenAPI 3.x object.");
+  }
+  const baseUrl = resolveBaseUrl(spec, options);
+  const doFetch = options.fetch ?? fetch;
+  const paths = isObject(spec.paths) ? spec.paths : {};
+  const tools: AnyAgentTool[] = [];
+  // Tool name -> "METHOD path" of the operation that produced it
+  const emitted = new Map<string, string>();
+
+  for (const [path, rawPathItem] of Object.entries(paths)) {
+    const pathItem = deref<JsonObject>(spec, rawPathItem);
+    const sharedParams = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+
+    for (const method of HTTP_METHODS) {
+      if (!isObject(pathItem[method])) continue;
+      const operation = pathItem[method] as OpenAPIOperation;
+      const name = toolNameFor(method, path, operation);
+
+      const info: OpenAPIOperationInfo = {
+        name,
+        operationId: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        tags: operation.tags ?? [],
+      };
+      if (Array.isArray(options.include)) {
+        if (!options.include.includes(name) && !options.include.includes(operation.operationId ?? "")) {
+          continue;
+        }
+      } else if (options.include && !options.include(info)) {
+        continue;
+      }
+
+      const previous = emitted.get(name);
+      if (previous) {
+        throw new Error(
+          `OpenAPI operations ${previous} and ${info.method} ${path} both map to tool name '${name}'. ` +
+            "Give them distinct operationIds or exclude one with 'include'.",
+        );
+      }
+      emitted.set(name, `${info.method} ${path}`);
+
+      // Operation-level parameters override path-level ones with the same name and location
+      const params = new Map<string, OpenAPIParameter>();
+      for (const raw of [...sharedParams, ...(operation.parameters ?? [])]) {
+        const param = deref<OpenAPIParameter>(spec, raw);
+        if (param.in === "cookie") continue;
+        params.set(`${param.in}:${param.name}`, param);
+      }
+
+      const defs: JsonObject = {};
+      const properties: JsonObject = {};
+      const required: string[] = [];
+      for (const param of params.values()) {
+        if (param.name in properties) {
+          throw new Error(
+            `OpenAPI operation ${name} has two parameters named '${param.name}'; only one can be exposed`,
+          );
+        }
+        const schema = convertSchema(spec, param.schema ?? { type: "string" }, defs) as JsonObject;
+        properties[param.name] = param.description ? { ...schema, description: param.description } : schema;
+        if (param.required || param.in === "path") required.push(param.name);
+      }
+
+      const requestBody = operation.requestBody ? deref<JsonObject>(spec, operation.requestBody) : undefined;
+      const jsonBody = isObject(requestBody?.content)
+        ? (requestBody.content as JsonObject)["application/json"]
+        : undefined;
+      if (isObject(jsonBody)) {
+        if ("body" in properties) {
+          throw new Error(`OpenAPI operation ${name} has a parameter named 'body', which clashes with its request body`);
+        }
+        const schema = convertSchema(spec, jsonBody.schema ?? {}, defs) as JsonObject;
+        properties.body =
+          typeof requestBody?.description === "string" ? { ...schema, description: requestBody.description } : schema;
+        if (requestBody?.required) required.push("body");
+      }
+
+      const parameters: JsonObject = { type: "object", properties };
+      if (required.length > 0) parameters.required = required;
+      if (Object.keys(defs).length > 0) parameters.$defs = defs;
+
+      const description =
+        [operation.summary, operation.description].filter(Boolean).join("\n\n") ||
+        `${info.method} ${path}`;
+
+      tools.push({
+        name,
+        label: operation.summary ?? name,
+        description,
+        parameters,
+        execute: async (_toolCallId, args, signal) => {
+          const input = isObject(args) ? args : {};
+          const url = new URL(
+            baseUrl +
+              path.replace(/\{([^}]+)\}/g, (_, key: string) => encodeURIComponent(String(input[key] ?? ""))),
+          );
+          const headers: Record<string, string> = {
+            Accept: "application/json",
+            ...options.headers,
+            ...authHeaders(options.auth),
+          };
+
+          for (const param of params.values()) {
+            const value = input[param.name];
+            if (value === undefined || value === null) continue;
+            if (param.in === "query") {
+              for (const item of Array.isArray(value) ? value : [value]) {
+                url.searchParams.append(param.name, typeof item === "object" ? JSON.stringify(item) : String(item));
+              }
+            } else if (param.in === "header") {
+              headers[param.name] = String(value);
+            }
+          }
+          if (options.auth?.type === "apiKey" && options.auth.in === "query") {
+            url.searchParams.set(options.auth.name, options.auth.value);
+          }
+
+          let body: string | undefined;
+          if (isObject(jsonBody) && input.body !== undefined) {
+            headers["Content-Type"] = "application/json";
+            body = JSON.stringify(input.body);
+          }
+
+          openapiLog("request", `${info.method} ${url.pathname}${url.search}`);
+          const response = await doFetch(url, { method: info.method, headers, body, signal });
+          const text = await response.text();
+          let payload: unknown = text;
+          if ((response.headers.get("content-type") ?? "").includes("json") && text) {
+            try {
+              payload = JSON.parse(text);
+            } catch {
+              // keep the raw text
+            }
+          }
+
+          if (!response.ok) {
+            throw new Error(
+              `${info.method} ${path} failed with ${response.status} ${response.statusText}: ${text.slice(0, 2000)}`,
+            );
+          }
+          return jsonResult(payload);
+        },
+      });
+    }
+  }
+
+  openapiLog("tools", `created ${tools.length} tools`);
+  return tools;
+}
@@ -0,0 +1,31 @@
+/**
+ * Permission Audit
+ *
+ * Built-in sink for the onPermissionDecision hook that appends one JSON
+ * record per permission decision to a file.
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { PermissionAuditRecord, PermissionDecisionHook } from "./types.js";
+
+/**
+ * Create an onPermissionDecision hook that appends each decision to a JSONL
+ * file. Writes are synchronous, so records land in decision order and
+ * survive a crash right after the decision.
+ *
+ * @example
+ * ```typescript
+ * const session = createSession(agentId, {
+ *   canUseTool: policy.compile(),
+ *   onPermissionDecision: createJsonlAuditSink("./logs/permissions.jsonl"),
+ * });
+ * ```
+ */
+export function createJsonlAuditSink(filePath: string): PermissionDecisionHook {
+  const target = resolve(filePath);
+  mkdirSync(dirname(target), { recursive: true });
+  return (record: PermissionAuditRecord) => {
+    appendFileSync(target, JSON.stringify(record) + "\n");
+  };
+}
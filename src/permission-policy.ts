@@ -0,0 +1,384 @@
+/**
+ * Permission Policy
+ *
+ * Declarative, ordered allow/deny/ask rules compiled into a canUseTool
+ * callback. The first matching rule decides; every decision carries a trace
+ * of the rules that were checked.
+ */
+
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import type {
+  CanUseToolCallback,
+  CanUseToolCallbackResult,
+  PermissionDecision,
+  PermissionEffect,
+  PermissionPolicyOptions,
+  PermissionRule,
+  PermissionRuleMatch,
+  PermissionTraceEntry,
+  PermissionUpdate,
+} from "./types.js";
+
+// Input keys that carry a file path, in lookup order
+const PATH_INPUT_KEYS = ["file_path", "notebook_path", "path"];
+
+/**
+ * Convert a glob to a RegExp. In path mode `*` stays within one segment and
+ * `**` crosses segments; otherwise `*` matches anything.
+ */
+function globToRegExp(glob: string, pathMode: boolean): RegExp {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*") {
+      if (pathMode && glob[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += pathMode ? "[^/]*" : ".*";
+      }
+    } else if (ch === "?") {
+      out += pathMode ? "[^/]" : ".";
+    } else if (ch === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        out += "\\{";
+      } else {
+        const alternatives = glob.slice(i + 1, end).split(",");
+        out += `(?:${alternatives.map((alt) => alt.replace(/[.+^${}()|[\]\\*?]/g, "\\$&")).join("|")})`;
+        i = end;
+      }
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`, "s");
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Split a shell command on `&&`, `||`, `;`, `|`, `&` and newlines, ignoring
+ * separators inside quotes. The `&` in redirections like `2>&1` or `&>` is not
+ * a separator.
+ */
+function splitShellCommand(command: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (quote) {
+      current += ch;
+      if (ch === "\\" && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      current += ch;
+    } else if (ch === "\\" && i + 1 < command.length) {
+      current += ch + command[++i];
+    } else if (
+      ch === ";" ||
+      ch === "\n" ||
+      ch === "|" ||
+      (ch === "&" && command[i - 1] !== ">" && command[i - 1] !== "<" && command[i + 1] !== ">")
+    ) {
+      if ((ch === "|" || ch === "&") && command[i + 1] === ch) i++;
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Find syntax that runs or writes more than the command itself: command
+ * substitution (`$(...)`, backticks), process substitution (`<(...)`,
+ * `>(...)`) and redirections. Returns the offending token, or null.
+ * Single-quoted text is inert; substitutions still run inside double quotes.
+ */
+function findUnsafeShellSyntax(part: string): string | null {
+  let quote: string | null = null;
+  for (let i = 0; i < part.length; i++) {
+    const ch = part[i]!;
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      continue;
+    }
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "`") return "`";
+    if (ch === "$" && part[i + 1] === "(") return "$(";
+    if (quote === '"') {
+      if (ch === '"') quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "<" || ch === ">") {
+      return part[i + 1] === "(" ? `${ch}(` : "redirection";
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse "Tool" or "Tool(pattern)" shorthand. The pattern is a command glob for
+ * Bash and a path glob for any other tool.
+ */
+function parseShorthand(spec: string): PermissionRuleMatch {
+  const match = /^([^()]+)\((.*)\)$/s.exec(spec.trim());
+  if (!match) {
+    return { tool: spec.trim() };
+  }
+  const tool = match[1]!.trim();
+  const pattern = match[2]!;
+  return tool === "Bash" ? { tool, command: pattern } : { tool, path: pattern };
+}
+
+/**
+ * Convert a CLI rule value ("Bash" + "npm test:*", "Edit" + "src/**") to a match
+ */
+function ruleMatchFromValue(toolName: string, ruleContent: string | undefined): PermissionRuleMatch {
+  if (!ruleContent) {
+    return { tool: toolName };
+  }
+  if (toolName === "Bash") {
+    const prefix = /^(.*):\*$/s.exec(ruleContent)?.[1];
+    return { tool: toolName, command: prefix === undefined ? ruleContent : [prefix, `${prefix} *`] };
+  }
+  return { tool: toolName, path: ruleContent };
+}
+
+function describeRule(rule: PermissionRule): string {
+  if (rule.name) return rule.name;
+  const tools = toList(rule.tool);
+  const target = [...toList(rule.command), ...toList(rule.path)].join(", ");
+  const subject = (tools.length > 0 ? tools.join("|") : rule.command ? "Bash" : "*") + (target ? `(${target})` : "");
+  return `${rule.effect} ${subject}${rule.when ? " when(...)" : ""}`;
+}
+
+/**
+ * Ordered permission rules compiled into a canUseTool callback.
+ *
+ * @example
+ * ```typescript
+ * const policy = new PermissionPolicy({ cwd: repoDir })
+ *   .allow(["Read", "Glob", "Grep"])
+ *   .allow("Bash(git status*)")
+ *   .deny({ command: "rm -rf *" }, { message: "Never delete recursively" })
+ *   .allow({ tool: ["Write", "Edit"], path: "src/**" })
+ *   .ask("Bash");
+ *
+ * const session = createSession(agentId, { canUseTool: policy.compile() });
+ * ```
+ */
+export class PermissionPolicy {
+  private readonly rules: PermissionRule[] = [];
+  private readonly cwd: string;
+
+  constructor(private readonly options: PermissionPolicyOptions = {}) {
+    this.cwd = resolve(options.cwd ?? process.cwd());
+  }
+
+  /** Allow requests matching `match` (a tool name, "Tool(pattern)", list, or match object) */
+  allow(match: string | string[] | PermissionRuleMatch, options: { name?: string } = {}): this {
+    return this.addRules("allow", match, options);
+  }
+
+  /** Deny requests matching `match`, optionally with a message for the agent */
+  deny(
+    match: string | string[] | PermissionRuleMatch,
+    options: { name?: string; message?: string; interrupt?: boolean } = {},
+  ): this {
+    return this.addRules("deny", match, options);
+  }
+
+  /** Defer requests matching `match` to `onAsk` */
+  ask(match: string | string[] | PermissionRuleMatch, options: { name?: string } = {}): this {
+    return this.addRules("ask", match, options);
+  }
+
+  /** Append a fully specified rule */
+  rule(rule: PermissionRule): this {
+    if (rule.tool === undefined && rule.command === undefined && rule.path === undefined && !rule.when) {
+      throw new Error("Invalid permission rule. Expected at least one of tool, command, path or when.");
+    }
+    this.rules.push(rule);
+    return this;
+  }
+
+  /**
+   * Evaluate a request against the rules. The first matching rule decides;
+   * otherwise `defaultEffect` applies.
+   */
+  evaluate(toolName: string, toolInput: Record<string, unknown>): PermissionDecision {
+    const trace: PermissionTraceEntry[] = [];
+    for (const rule of this.rules) {
+      const name = describeRule(rule);
+      const { matched, reason } = this.matchRule(rule, toolName, toolInput);
+      trace.push({ rule: name, effect: rule.effect, matched, reason });
+      if (matched) {
+        return {
+          behavior: rule.effect,
+          rule: name,
+          message: rule.effect === "deny" ? rule.message ?? `Denied by permission rule: ${name}` : undefined,
+          ...(rule.effect === "deny" && rule.interrupt ? { interrupt: true } : {}),
+          trace,
+        };
+      }
+    }
+
+    const behavior = this.options.defaultEffect ?? "deny";
+    return {
+      behavior,
+      message: behavior === "deny" ? `No permission rule allows ${toolName}` : undefined,
+      trace,
+    };
+  }
+
+  /**
+   * Compile to a canUseTool callback. "ask" decisions go to `onAsk`, or are
+   * denied when there is none.
+   */
+  compile(): CanUseToolCallback {
+    return async (toolName, toolInput, context): Promise<CanUseToolCallbackResult> => {
+      const decision = this.evaluate(toolName, toolInput);
+      this.options.onDecision?.(toolName, toolInput, decision);
+
+      if (decision.behavior === "allow") {
+        return { behavior: "allow" };
+      }
+      if (decision.behavior === "ask" && this.options.onAsk) {
+        return this.options.onAsk(toolName, toolInput, context);
+      }
+      return {
+        behavior: "deny",
+        message: decision.message ?? `${toolName} requires approval (${decision.rule ?? "default"})`,
+        ...(decision.interrupt ? { interrupt: true } : {}),
+      };
+    };
+  }
+
+  /**
+   * Add the rules from "always allow"-style permission updates, ahead of the
+   * existing rules. Rule content follows the CLI format: "prefix:*" or an
+   * exact command for Bash, a path glob for other tools.
+   */
+  applyUpdates(updates: PermissionUpdate[]): this {
+    const added: PermissionRule[] = [];
+    for (const update of updates) {
+      if (update.type !== "addRules") continue;
+      for (const value of update.rules) {
+        added.push({
+          effect: update.behavior,
+          name: `${update.behavior} ${value.toolName}${value.ruleContent ? `(${value.ruleContent})` : ""} [${update.destination}]`,
+          ...ruleMatchFromValue(value.toolName, value.ruleContent),
+        });
+      }
+    }
+    this.rules.unshift(...added);
+    return this;
+  }
+
+  private addRules(
+    effect: PermissionEffect,
+    match: string | string[] | PermissionRuleMatch,
+    options: { name?: string; message?: string; interrupt?: boolean },
+  ): this {
+    if (Array.isArray(match)) {
+      // Plain tool names collapse into one rule; shorthands become one rule each
+      const plain = match.filter((spec) => !spec.includes("("));
+      if (plain.length > 0) {
+        this.rule({ effect, tool: plain, ...options });
+      }
+      for (const spec of match.filter((spec) => spec.includes("("))) {
+        this.rule({ effect, ...parseShorthand(spec), ...options });
+      }
+      return this;
+    }
+    const resolved = typeof match === "string" ? parseShorthand(match) : match;
+    return this.rule({ effect, ...resolved, ...options });
+  }
+
+  private matchRule(
+    rule: PermissionRule,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+  ): { matched: boolean; reason: string } {
+    const tools = toList(rule.tool);
+    const implicitTools = tools.length === 0 && rule.command !== undefined ? ["Bash"] : tools;
+    if (implicitTools.length > 0 && !implicitTools.some((t) => globToRegExp(t, false).test(toolName))) {
+      return { matched: false, reason: `tool ${toolName} not in ${implicitTools.join(", ")}` };
+    }
+
+    const commands = toList(rule.command);
+    if (commands.length > 0) {
+      const command = toolInput.command;
+      if (typeof command !== "string") {
+        return { matched: false, reason: "request has no command" };
+      }
+      const patterns = commands.map((c) => globToRegExp(c, false));
+      const parts = splitShellCommand(command);
+      const partMatches = (part: string) => patterns.some((p) => p.test(part));
+      if (rule.effect === "allow") {
+        // A glob can't see what a substitution or redirection does, so allow
+        // rules never cover them
+        for (const part of parts) {
+          const unsafe = findUnsafeShellSyntax(part);
+          if (unsafe) {
+            return { matched: false, reason: `command part '${part}' uses ${unsafe}` };
+          }
+        }
+        const unmatched = parts.find((part) => !partMatches(part));
+        if (unmatched !== undefined || parts.length === 0) {
+          return { matched: false, reason: `command part '${unmatched ?? ""}' not matched` };
+        }
+      } else if (!parts.some(partMatches)) {
+        return { matched: false, reason: "no command part matched" };
+      }
+    }
+
+    const paths = toList(rule.path);
+    if (paths.length > 0) {
+      const key = PATH_INPUT_KEYS.find((k) => typeof toolInput[k] === "string");
+      if (!key) {
+        return { matched: false, reason: "request has no file path" };
+      }
+      const absolute = resolve(this.cwd, toolInput[key] as string);
+      const rel = relative(this.cwd, absolute).split(sep).join("/");
+      const matchedPath = paths.some((glob) =>
+        isAbsolute(glob)
+          ? globToRegExp(glob.split(sep).join("/"), true).test(absolute.split(sep).join("/"))
+          : !rel.startsWith("../") && rel !== ".." && globToRegExp(glob, true).test(rel),
+      );
+      if (!matchedPath) {
+        return { matched: false, reason: `path ${rel} not matched` };
+      }
+    }
+
+    if (rule.when && !rule.when(toolName, toolInput)) {
+      return { matched: false, reason: "predicate returned false" };
+    }
+
+    return { matched: true, reason: "matched" };
+  }
+}
@@ -12,6 +12,8 @@ import type {
   SDKInitMessage,
   SDKAssistantMessage,
   SDKResultMessage,
+  SDKToolCallMessage,
+  SDKToolResultMessage,
   MessageWire,
   WireMessage,
   ControlRequest,
@@ -21,13 +23,38 @@ import type {
   CanUseToolResponseDeny,
   SendMessage,
   AnyAgentTool,
+  AgentToolResult,
   ExecuteExternalToolRequest,
   ListMessagesOptions,
   ListMessagesResult,
   BootstrapStateOptions,
   BootstrapStateResult,
   SDKStreamEventPayload,
+  StreamBufferPolicy,
+  Transport,
+  RunOptions,
+  TurnControlOptions,
+  TurnResult,
+  OutputSchema,
+  InferOutput,
+  PermissionUpdate,
+  SDKPermissionInterrupt,
+  PermissionAuditRecord,
+  PermissionDecisionMechanism,
 } from "./types.js";
+import { ToolCallAccumulator } from "./tool-call-accumulator.js";
+import { TurnCollector } from "./turn.js";
+import { toToolParametersSchema, validateToolArguments } from "./json-schema.js";
+import { runToolMiddleware } from "./tool-middleware.js";
+import { ToolParamError } from "./tool-helpers.js";
+import { PermissionPolicy } from "./permission-policy.js";
+import { validateAgentToolLimits } from "./validation.js";
+import {
+  DEFAULT_MAX_OUTPUT_CORRECTIONS,
+  buildCorrectionMessage,
+  parseStructuredOutput,
+  withOutputInstruction,
+} from "./structured-output.js";
 import {
   isHeadlessAutoAllowTool,
   requiresRuntimeUserInput,
@@ -39,20 +66,52 @@ function sessionLog(tag: string, ...args: unknown[]) {
   if (process.env.DEBUG_SDK) console.error(`[SDK-Session] [${tag}]`, ...args);
 }
 
-const MAX_BUFFERED_STREAM_MESSAGES = 100;
+const DEFAULT_MAX_BUFFERED_STREAM_MESSAGES = 100;
+
+/**
+ * Settle with `promise`, or reject with the signal's reason as soon as it
+ * aborts (so a tool that ignores its signal can't hold the call open).
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// Never dropped on overflow: losing these leaves consumers with a broken turn
+// (no terminal result, missing error detail, or tool results without a call).
+const PROTECTED_STREAM_MESSAGE_TYPES = new Set<SDKMessage["type"]>([
+  "result",
+  "error",
+  "tool_call",
+]);
 
 export class Session implements AsyncDisposable {
-  private transport: SubprocessTransport;
+  private transport: Transport;
   private _agentId: string | null = null;
   private _sessionId: string | null = null;
   private _conversationId: string | null = null;
   private initialized = false;
   private externalTools: Map<string, AnyAgentTool> = new Map();
+  // JSON Schema sent to the CLI for each external tool, converted up front so
+  // unsupported schemas fail at construction rather than at registration
+  private externalToolSchemas: Map<string, Record<string, unknown>> = new Map();
+  // Every tool ever attached, so dispose hooks run on close even after removal
+  private attachedTools: Set<AnyAgentTool> = new Set();
+  // `details` from external tool results, attached to the CLI's tool_return_message
+  private toolResultDetails: Map<string, unknown> = new Map();
   private streamQueue: SDKMessage[] = [];
   private streamResolvers: Array<(msg: SDKMessage | null) => void> = [];
   private pumpPromise: Promise<void> | null = null;
   private pumpClosed = false;
-  private droppedStreamMessages = 0;
+  private _droppedStreamMessages = 0;
+  // Pump-side waiters for the "block" buffer policy, released as the consumer drains
+  private streamDrainWaiters: Array<() => void> = [];
   // Waiters for SDK-initiated control requests (e.g., listMessages).
   // Keyed by request_id; pump resolves the matching waiter when it sees
   // a control_response with that request_id instead of queuing it as a stream msg.
@@ -60,17 +119,38 @@ export class Session implements AsyncDisposable {
     string,
     (response: { subtype: string; response?: unknown; error?: string }) => void
   >();
+  // Cancellation scope for the in-flight turn, fired by a send()/stream()
+  // signal or timeoutMs. Its signal is handed to external tool execute() calls.
+  private turnAbortController = new AbortController();
+  private turnAbortReason: "aborted" | "timeout" | "permission_interrupt" | null = null;
+  // The denial that ended the turn, when turnAbortReason is "permission_interrupt"
+  private permissionInterrupt: SDKPermissionInterrupt | null = null;
+  private turnAbortCleanups: Array<() => void> = [];
+  private turnCount = 0;
+  // Aborted turns whose stream ended before the CLI's result arrived. The CLI
+  // keeps running them, so their late messages are dropped up to that result.
+  private abandonedTurns = 0;
+  // One controller per in-flight external tool call, keyed by tool_call_id.
+  // Aborted by the turn scope, abort() and close().
+  private toolAbortControllers = new Map<string, AbortController>();
+  // Per-tool concurrency: running count plus queued starters, keyed by tool name
+  private toolSlots = new Map<string, { active: number; waiting: Array<() => void> }>();
+  // Rules from canUseTool permission updates ("always allow"), checked before the callback
+  private sessionPermissionRules: PermissionPolicy | null = null;
 
   constructor(
     private options: InternalSessionOptions = {}
   ) {
     // Note: Validation happens in public API functions (createSession, createAgent, etc.)
-    this.transport = new SubprocessTransport(options);
+    this.transport =
+      typeof options.transport === "function"
+        ? options.transport(options)
+        : options.transport ?? new SubprocessTransport(options);
 
     // Store external tools in a map for quick lookup
     if (options.tools) {
       for (const tool of options.tools) {
-        this.externalTools.set(tool.name, tool);
+        this.addExternalTool(tool);
       }
     }
   }
@@ -173,6 +253,7 @@ export class Session implements AsyncDisposable {
    * Send a message to the agent
    * 
    * @param message - Text string or multimodal content array
+   * @param options - Optional `signal` / `timeoutMs` that cancel this turn
    * 
    * @example
    * // Simple text
@@ -185,7 +266,10 @@ export class Session implements AsyncDisposable {
    *   { type: "image", source: { type: "base64", mediaType: "image/png", data: "..." } }
    * ]);
    */
-  async send(message: SendMessage): Promise<void> {
+  async send(message: SendMessage, options: TurnControlOptions = {}): Promise<void> {
+    if (options.signal?.aborted) {
+      throw new Error("Turn aborted before the message was sent");
+    }
     if (!this.initialized) {
       sessionLog("send", "auto-initializing (not yet initialized)");
       await this.initialize();
@@ -200,8 +284,12 @@ export class Session implements AsyncDisposable {
     if (this.streamQueue.length > 0) {
       sessionLog("send", `clearing ${this.streamQueue.length} stale messages from previous turn`);
       this.streamQueue.length = 0;
+      this.releaseStreamDrainWaiters();
     }
 
+    this.beginTurn();
+    this.watchTurnAbort(options);
+
     await this.transport.write({
       type: "user",
       message: { role: "user", content: message },
@@ -211,20 +299,29 @@ export class Session implements AsyncDisposable {
 
   /**
    * Stream messages from the agent
+   *
+   * If the turn is aborted (via `signal` / `timeoutMs` here or on send(), or a
+   * canUseTool denial with `interrupt: true`), the stream ends right away with
+   * an SDKResultMessage whose `aborted` flag is set, without waiting for the CLI
+   * to stop.
    */
-  async *stream(): AsyncGenerator<SDKMessage> {
+  async *stream(options: TurnControlOptions = {}): AsyncGenerator<SDKMessage> {
     const streamStart = Date.now();
     let yieldCount = 0;
     let gotResult = false;
 
     this.startBackgroundPump();
+    this.watchTurnAbort(options);
     sessionLog("stream", `starting stream (agent=${this._agentId}, conversation=${this._conversationId})`);
 
     while (true) {
-      const sdkMsg = await this.nextBufferedMessage();
+      const sdkMsg = await this.nextBufferedMessage(this.turnAbortController.signal);
       if (!sdkMsg) {
         break;
       }
+      if (sdkMsg.type === "result") {
+        this.disposeTurnAbortWatchers();
+      }
 
       yieldCount++;
       sessionLog("stream", `yield #${yieldCount}: type=${sdkMsg.type}${sdkMsg.type === "result" ? ` success=${(sdkMsg as SDKResultMessage).success} error=${(sdkMsg as SDKResultMessage).error || "none"}` : ""}`);
@@ -237,13 +334,184 @@ export class Session implements AsyncDisposable {
       }
     }
 
+    // Aborted: report it now rather than wait for the CLI, which may keep going
+    if (!gotResult && this.turnAbortReason) {
+      gotResult = true;
+      this.disposeTurnAbortWatchers();
+      // A result already queued is cleared by the next send(); otherwise drop
+      // the rest of this turn as it arrives
+      if (!this.pumpClosed && !this.streamQueue.some((queued) => queued.type === "result")) {
+        this.abandonedTurns++;
+      }
+      yield this.abortedResult(streamStart);
+    }
+
     const elapsed = Date.now() - streamStart;
-    sessionLog("stream", `stream ended: duration=${elapsed}ms yielded=${yieldCount} dropped=${this.droppedStreamMessages} gotResult=${gotResult}`);
+    sessionLog("stream", `stream ended: duration=${elapsed}ms yielded=${yieldCount} dropped=${this._droppedStreamMessages} gotResult=${gotResult}`);
     if (!gotResult) {
       sessionLog("stream", "WARNING: stream ended WITHOUT a result message -- transport may have closed unexpectedly");
     }
   }
 
+  /**
+   * Send a message and wait for the whole turn, aggregated into a TurnResult
+   *
+   * With `outputSchema`, the agent is asked for JSON matching the schema. The
+   * reply is validated into `output`; invalid replies get up to
+   * `maxOutputCorrections` correction turns before `outputError` is set.
+   *
+   * @example
+   * const turn = await session.run("Fix the failing test", {
+   *   onMessage: (msg) => { if (msg.type === "assistant") process.stdout.write(msg.content); },
+   * });
+   * console.log(turn.toolCalls.length, turn.result.success);
+   *
+   * @example
+   * const { output } = await session.run("Summarize the release", {
+   *   outputSchema: Type.Object({ title: Type.String(), bullets: Type.Array(Type.String()) }),
+   * });
+   */
+  async run<S extends OutputSchema>(
+    message: SendMessage,
+    options: RunOptions & { outputSchema: S }
+  ): Promise<TurnResult<InferOutput<S>>>;
+  async run(message: SendMessage, options?: RunOptions): Promise<TurnResult>;
+  async run(message: SendMessage, options: RunOptions = {}): Promise<TurnResult> {
+    const schema = options.outputSchema;
+    if (!schema) {
+      return this.runTurn(message, options);
+    }
+
+    const maxCorrections = options.maxOutputCorrections ?? DEFAULT_MAX_OUTPUT_CORRECTIONS;
+    let turn = await this.runTurn(withOutputInstruction(message, schema), options);
+    for (let attempt = 1; ; attempt++) {
+      const text = turn.text || turn.result.result || "";
+      if (!turn.result.success) {
+        turn.outputError = {
+          message: `Turn failed: ${turn.result.error ?? "unknown error"}`,
+          issues: [],
+          rawText: text,
+          attempts: attempt,
+        };
+        return turn;
+      }
+
+      const parsed = parseStructuredOutput(text, schema);
+      if (parsed.ok) {
+        turn.output = parsed.value;
+        return turn;
+      }
+      sessionLog("run", `structured output attempt ${attempt} invalid: ${parsed.message}`);
+      if (attempt > maxCorrections) {
+        turn.outputError = {
+          message: `Structured output invalid after ${attempt} attempt(s):\n${parsed.message}`,
+          issues: parsed.issues,
+          rawText: text,
+          attempts: attempt,
+        };
+        return turn;
+      }
+      turn = await this.runTurn(buildCorrectionMessage(parsed.message), options);
+    }
+  }
+
+  private async runTurn(message: SendMessage, options: RunOptions): Promise<TurnResult> {
+    const collector = new TurnCollector();
+    await this.send(message, { signal: options.signal, timeoutMs: options.timeoutMs });
+
+    let result: SDKResultMessage | null = null;
+    for await (const msg of this.stream()) {
+      collector.push(msg);
+      if (options.onMessage) {
+        await options.onMessage(msg);
+      }
+      if (msg.type === "result") {
+        result = msg;
+      }
+    }
+
+    return collector.finish(
+      result ?? {
+        type: "result",
+        success: false,
+        error: "No result received",
+        durationMs: Date.now() - collector.startedAt,
+        conversationId: this._conversationId,
+      }
+    );
+  }
+
+  /**
+   * Start a fresh cancellation scope for a new turn
+   */
+  private beginTurn(): void {
+    this.disposeTurnAbortWatchers();
+    this.turnAbortController = new AbortController();
+    this.turnAbortReason = null;
+    this.permissionInterrupt = null;
+    this.turnCount++;
+  }
+
+  private watchTurnAbort(options: TurnControlOptions): void {
+    const { signal, timeoutMs } = options;
+    if (signal) {
+      if (signal.aborted) {
+        this.abortTurn("aborted");
+        return;
+      }
+      const onAbort = () => this.abortTurn("aborted");
+      signal.addEventListener("abort", onAbort, { once: true });
+      this.turnAbortCleanups.push(() => signal.removeEventListener("abort", onAbort));
+    }
+    if (timeoutMs !== undefined) {
+      const timer = setTimeout(() => this.abortTurn("timeout"), timeoutMs);
+      this.turnAbortCleanups.push(() => clearTimeout(timer));
+    }
+  }
+
+  private disposeTurnAbortWatchers(): void {
+    for (const cleanup of this.turnAbortCleanups) {
+      cleanup();
+    }
+    this.turnAbortCleanups = [];
+  }
+
+  /**
+   * Cancel the in-flight turn: abort external tools and interrupt the CLI.
+   * Firing the turn signal also ends a waiting stream() with an aborted result.
+   */
+  private abortTurn(reason: "aborted" | "timeout" | "permission_interrupt"): void {
+    if (this.turnAbortReason) {
+      return;
+    }
+    sessionLog("abort", `turn ${reason === "timeout" ? "timed out" : reason === "aborted" ? "aborted by signal" : "interrupted by a permission denial"}`);
+    this.turnAbortReason = reason;
+    this.disposeTurnAbortWatchers();
+    this.turnAbortController.abort(
+      new Error(
+        reason === "timeout" ? "Turn timed out"
+        : reason === "aborted" ? "Turn aborted"
+        : `Turn interrupted: ${this.permissionInterrupt?.message ?? "permission denied"}`
+      )
+    );
+    this.abort().catch((err) => {
+      sessionLog("abort", `interrupt failed: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }
+
+  private abortedResult(startedAt: number): SDKResultMessage {
+    return {
+      type: "result",
+      success: false,
+      error: this.turnAbortReason ?? "aborted",
+      stopReason: "cancelled",
+      durationMs: Date.now() - startedAt,
+      conversationId: this._conversationId,
+      aborted: true,
+      ...(this.permissionInterrupt ? { permissionInterrupt: this.permissionInterrupt } : {}),
+    };
+  }
+
   private startBackgroundPump(): void {
     if (this.pumpPromise) {
       return;
@@ -263,9 +531,11 @@ export class Session implements AsyncDisposable {
   private async runBackgroundPump(): Promise<void> {
     sessionLog("pump", "background pump started");
 
-    // Tool call chunks are emitted immediately (no buffering).
-    // Consumers that need complete arguments should accumulate rawArguments
-    // across chunks sharing the same toolCallId on their side.
+    // Tool call chunks are emitted immediately (no buffering) unless
+    // accumulateToolCalls is set, in which case ToolCallAccumulator turns them
+    // into tool_call_delta events plus one completed tool_call per ID.
+    // Otherwise consumers that need complete arguments should accumulate
+    // rawArguments across chunks sharing the same toolCallId on their side.
     //
     // Index-to-ID mapping: The Letta API follows the OpenAI streaming format
     // for parallel tool calls -- only the first chunk per tool call includes
@@ -273,6 +543,9 @@ export class Session implements AsyncDisposable {
     // We maintain a lightweight index->id map so transformMessage() can
     // resolve the ID for every chunk without buffering.
     const indexToToolCallId = new Map<number, string>();
+    const toolCallAccumulator = this.options.accumulateToolCalls
+      ? new ToolCallAccumulator()
+      : null;
 
     for await (const wireMsg of this.transport.messages()) {
       const wireMsgAny = wireMsg as unknown as Record<string, unknown>;
@@ -305,12 +578,10 @@ export class Session implements AsyncDisposable {
       // For tool_call_message chunks, resolve index-based IDs before transform.
       // The first chunk has both tool_call_id and index; subsequent chunks have
       // only index. Patch the wire message so transformMessage() always sees an ID.
+      // A single chunk may carry several parallel calls, so patch every entry.
       const messageType = wireMsgAny.message_type as string | undefined;
       if (wireMsg.type === "message" && (messageType === "tool_call_message" || messageType === "approval_request_message")) {
-        const toolCalls = wireMsgAny.tool_calls as Array<Record<string, unknown>> | undefined;
-        const toolCall = wireMsgAny.tool_call as Record<string, unknown> | undefined;
-        const tc = toolCalls?.[0] || toolCall;
-        if (tc) {
+        for (const tc of this.getWireToolCalls(wireMsgAny)) {
           const fnObj = tc.function as Record<string, unknown> | undefined;
           const tcId = (tc.tool_call_id as string | undefined) ?? (tc.id as string | undefined);
           const tcIndex = tc.index as number | undefined;
@@ -331,10 +602,14 @@ export class Session implements AsyncDisposable {
         }
       }
 
-      const sdkMsg = this.transformMessage(wireMsg);
-      if (sdkMsg) {
-        this.enqueueStreamMessage(sdkMsg);
-      } else {
+      const sdkMsgs = this.transformMessages(wireMsg);
+      for (const sdkMsg of sdkMsgs) {
+        const surfaced = toolCallAccumulator ? toolCallAccumulator.push(sdkMsg) : [sdkMsg];
+        for (const out of surfaced) {
+          await this.enqueueStreamMessage(out);
+        }
+      }
+      if (sdkMsgs.length === 0) {
         sessionLog("pump", `DROPPED wire message: type=${wireMsg.type} message_type=${wireMsgAny.message_type || "N/A"} subtype=${wireMsgAny.subtype || "N/A"}`);
       }
     }
@@ -358,7 +633,9 @@ export class Session implements AsyncDisposable {
     if (subtype === "execute_external_tool") {
       // SDK extension: not in protocol ControlRequestBody union, extract fields via Record
       const rawReq = controlReq.request as Record<string, unknown>;
-      await this.handleExecuteExternalTool(
+      // Not awaited: a slow tool must not stall the pump (progress, interrupts,
+      // parallel calls). Each call writes its own control_response.
+      this.handleExecuteExternalTool(
         controlReq.request_id,
         {
           subtype: "execute_external_tool",
@@ -366,32 +643,100 @@ export class Session implements AsyncDisposable {
           tool_name: rawReq.tool_name as string,
           input: rawReq.input as Record<string, unknown>,
         }
-      );
+      ).catch((err) => {
+        sessionLog("executeExternalTool", `failed to respond: ${err instanceof Error ? err.message : String(err)}`);
+      });
       return true;
     }
 
     return false;
   }
 
-  private enqueueStreamMessage(msg: SDKMessage): void {
+  private async enqueueStreamMessage(msg: SDKMessage): Promise<void> {
+    if (this.abandonedTurns > 0) {
+      if (msg.type === "result") {
+        this.abandonedTurns--;
+      }
+      sessionLog("pump", `DROPPED ${msg.type} from an aborted turn`);
+      return;
+    }
+
     if (this.streamResolvers.length > 0) {
       const resolve = this.streamResolvers.shift()!;
       resolve(msg);
       return;
     }
 
-    if (this.streamQueue.length >= MAX_BUFFERED_STREAM_MESSAGES) {
-      this.streamQueue.shift();
-      this.droppedStreamMessages++;
-      sessionLog("pump", `stream queue overflow: dropped oldest message (total_dropped=${this.droppedStreamMessages}, max=${MAX_BUFFERED_STREAM_MESSAGES})`);
+    const policy = this.options.streamBufferPolicy ?? "drop-oldest";
+    const maxBuffered =
+      this.options.maxBufferedStreamMessages ?? DEFAULT_MAX_BUFFERED_STREAM_MESSAGES;
+
+    if (policy === "block") {
+      while (this.streamQueue.length >= maxBuffered && !this.pumpClosed) {
+        sessionLog("pump", `stream queue full: blocking pump until consumer drains (max=${maxBuffered})`);
+        await new Promise<void>((resolve) => {
+          this.streamDrainWaiters.push(resolve);
+        });
+      }
+      // A consumer may have started waiting while the queue was cleared
+      if (this.streamResolvers.length > 0) {
+        const resolve = this.streamResolvers.shift()!;
+        resolve(msg);
+        return;
+      }
+    } else if (policy !== "unbounded" && this.streamQueue.length >= maxBuffered) {
+      const isDroppable = (queued: SDKMessage) =>
+        policy === "drop-partials-only"
+          ? queued.type === "stream_event"
+          : !PROTECTED_STREAM_MESSAGE_TYPES.has(queued.type);
+
+      const index = this.streamQueue.findIndex(isDroppable);
+      if (index >= 0) {
+        const [dropped] = this.streamQueue.splice(index, 1);
+        this.recordDroppedStreamMessage(dropped!, policy, maxBuffered);
+      } else if (isDroppable(msg)) {
+        this.recordDroppedStreamMessage(msg, policy, maxBuffered);
+        return;
+      }
+      // Otherwise everything is protected: exceed the bound rather than lose it
     }
 
     this.streamQueue.push(msg);
   }
 
-  private async nextBufferedMessage(): Promise<SDKMessage | null> {
+  private recordDroppedStreamMessage(
+    msg: SDKMessage,
+    policy: StreamBufferPolicy,
+    maxBuffered: number,
+  ): void {
+    this._droppedStreamMessages++;
+    sessionLog("pump", `stream queue overflow: dropped ${msg.type} (policy=${policy}, total_dropped=${this._droppedStreamMessages}, max=${maxBuffered})`);
+    try {
+      this.options.onStreamMessageDropped?.(msg, this._droppedStreamMessages);
+    } catch (err) {
+      sessionLog("pump", `onStreamMessageDropped threw: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private releaseStreamDrainWaiters(): void {
+    for (const resolve of this.streamDrainWaiters) {
+      resolve();
+    }
+    this.streamDrainWaiters = [];
+  }
+
+  /**
+   * Next message for stream(), or null once the pump closes or `signal` aborts
+   */
+  private async nextBufferedMessage(signal?: AbortSignal): Promise<SDKMessage | null> {
+    if (signal?.aborted) {
+      return null;
+    }
+
     if (this.streamQueue.length > 0) {
-      return this.streamQueue.shift()!;
+      const msg = this.streamQueue.shift()!;
+      this.releaseStreamDrainWaiters();
+      return msg;
     }
 
     if (this.pumpClosed) {
@@ -399,7 +744,20 @@ export class Session implements AsyncDisposable {
     }
 
     return new Promise((resolve) => {
-      this.streamResolvers.push(resolve);
+      const onAbort = () => {
+        // Unregister so the next message isn't handed to a finished stream
+        const index = this.streamResolvers.indexOf(deliver);
+        if (index >= 0) {
+          this.streamResolvers.splice(index, 1);
+        }
+        resolve(null);
+      };
+      const deliver = (msg: SDKMessage | null) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(msg);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.streamResolvers.push(deliver);
     });
   }
 
@@ -408,6 +766,7 @@ export class Session implements AsyncDisposable {
       resolve(msg);
     }
     this.streamResolvers = [];
+    this.releaseStreamDrainWaiters();
     // Also cancel any in-flight control request waiters (e.g., listMessages)
     for (const resolve of this.controlResponseWaiters.values()) {
       resolve({ subtype: "error", error: "session closed" });
@@ -418,13 +777,19 @@ export class Session implements AsyncDisposable {
   /**
    * Register external tools with the CLI
    */
+  private addExternalTool(tool: AnyAgentTool): void {
+    validateAgentToolLimits(tool);
+    this.externalToolSchemas.set(tool.name, toToolParametersSchema(tool.parameters, tool.name));
+    this.externalTools.set(tool.name, tool);
+    this.attachedTools.add(tool);
+  }
+
   private async registerExternalTools(): Promise<void> {
     const toolDefs = Array.from(this.externalTools.values()).map((tool) => ({
       name: tool.name,
       label: tool.label,
       description: tool.description,
-      // Convert TypeBox schema to plain JSON Schema
-      parameters: this.schemaToJsonSchema(tool.parameters),
+      parameters: this.externalToolSchemas.get(tool.name),
     }));
 
     sessionLog("registerTools", `registering ${toolDefs.length} external tools: ${toolDefs.map(t => t.name).join(", ")}`);
@@ -439,24 +804,78 @@ export class Session implements AsyncDisposable {
     });
   }
 
+  private async unregisterExternalTools(names: string[]): Promise<void> {
+    sessionLog("registerTools", `unregistering ${names.length} external tools: ${names.join(", ")}`);
+
+    // SDK extension for CLIs that can drop tools. The bundled CLI answers with
+    // an unknown-subtype error (dropped by the pump), so the tool stays visible
+    // to the model there; calls to it are rejected SDK-side as unknown tools.
+    await this.transport.write({
+      type: "control_request",
+      request_id: `unregister_tools_${Date.now()}`,
+      request: {
+        subtype: "unregister_external_tools",
+        tool_names: names,
+      },
+    });
+  }
+
   /**
-   * Convert TypeBox schema to JSON Schema
+   * Add an external tool, or replace one with the same name.
+   * Takes effect immediately on a live session.
    */
-  private schemaToJsonSchema(schema: unknown): Record<string, unknown> {
-    // TypeBox schemas are already JSON Schema compatible
-    // Just need to extract the schema object
-    if (schema && typeof schema === "object") {
-      // TypeBox schemas have these JSON Schema properties
-      const s = schema as Record<string, unknown>;
-      return {
-        type: s.type,
-        properties: s.properties,
-        required: s.required,
-        additionalProperties: s.additionalProperties,
-        description: s.description,
-      };
+  async registerTool(tool: AnyAgentTool): Promise<void> {
+    this.addExternalTool(tool);
+    if (this.initialized) {
+      await this.registerExternalTools();
+    }
+  }
+
+  /**
+   * Remove an external tool. Returns false if no tool had that name.
+   *
+   * Removal always takes effect SDK-side: later calls to the tool are rejected
+   * as unknown. CLIs that can't unregister tools (including the bundled one)
+   * keep listing it to the model until the session restarts.
+   */
+  async unregisterTool(name: string): Promise<boolean> {
+    if (!this.externalTools.delete(name)) {
+      return false;
+    }
+    this.externalToolSchemas.delete(name);
+    if (this.initialized) {
+      await this.unregisterExternalTools([name]);
+    }
+    return true;
+  }
+
+  /**
+   * Replace the whole set of external tools. All schemas and limits are checked
+   * before anything changes, so an invalid tool leaves the current set in place.
+   * Dropped tools are removed as with unregisterTool().
+   */
+  async setTools(tools: AnyAgentTool[]): Promise<void> {
+    tools.forEach(validateAgentToolLimits);
+    const schemas = new Map(
+      tools.map((tool) => [tool.name, toToolParametersSchema(tool.parameters, tool.name)] as const)
+    );
+    const removed = Array.from(this.externalTools.keys()).filter((name) => !schemas.has(name));
+
+    this.externalTools = new Map(tools.map((tool) => [tool.name, tool]));
+    this.externalToolSchemas = schemas;
+    for (const tool of tools) {
+      this.attachedTools.add(tool);
+    }
+
+    if (!this.initialized) {
+      return;
+    }
+    if (removed.length > 0) {
+      await this.unregisterExternalTools(removed);
+    }
+    if (tools.length > 0) {
+      await this.registerExternalTools();
     }
-    return { type: "object" };
   }
 
   /**
@@ -484,12 +903,89 @@ export class Session implements AsyncDisposable {
       return;
     }
 
+    const controller = new AbortController();
+    const turnSignal = this.turnAbortController.signal;
+    const onTurnAbort = () => controller.abort(turnSignal.reason);
+    if (turnSignal.aborted) {
+      onTurnAbort();
+    } else {
+      turnSignal.addEventListener("abort", onTurnAbort, { once: true });
+    }
+    this.toolAbortControllers.set(req.tool_call_id, controller);
+
+    const onUpdate = (update: Partial<AgentToolResult<unknown>>) => {
+      this.enqueueStreamMessage({
+        type: "tool_progress",
+        toolCallId: req.tool_call_id,
+        toolName: req.tool_name,
+        content: update.content ?? [],
+        details: update.details,
+      }).catch((err) => {
+        sessionLog("executeExternalTool", `dropped progress for ${req.tool_name}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    };
+
+    const timeoutMs = tool.timeoutMs ?? this.options.toolTimeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let releaseSlot: (() => void) | undefined;
+    let execution: Promise<AgentToolResult<unknown>> | undefined;
+
     try {
+      // Check arguments against the declared schema so the model can correct
+      // itself without the tool ever running
+      const args = validateToolArguments(
+        this.externalToolSchemas.get(req.tool_name) ?? { type: "object" },
+        req.input
+      );
+      if (!args.ok) {
+        sessionLog("executeExternalTool", `invalid arguments for ${req.tool_name}: ${args.issues.length} issue(s)`);
+        await this.transport.write({
+          type: "control_response",
+          response: {
+            subtype: "external_tool_result",
+            request_id: requestId,
+            tool_call_id: req.tool_call_id,
+            content: [{
+              type: "text",
+              text:
+                `Invalid arguments for tool ${req.tool_name}:\n` +
+                args.issues.map((i) => `- ${i.path || "(root)"}: ${i.message}`).join("\n") +
+                "\nFix the arguments and call the tool again.",
+            }],
+            is_error: true,
+          },
+        });
+        return;
+      }
+
+      releaseSlot = await this.acquireToolSlot(tool, controller.signal);
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          controller.abort(new Error(`${req.tool_name} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+
       sessionLog("executeExternalTool", `executing ${req.tool_name} (call_id=${req.tool_call_id})`);
-      // Execute the tool
-      const result = await tool.execute(req.tool_call_id, req.input);
+      // Execute the tool through the middleware chain
+      execution = runToolMiddleware(
+        this.options.toolMiddleware ?? [],
+        {
+          toolName: req.tool_name,
+          toolCallId: req.tool_call_id,
+          input: args.value,
+          tool,
+          sessionId: this._sessionId,
+          agentId: this._agentId,
+          conversationId: this._conversationId,
+          signal: controller.signal,
+        },
+        (ctx) => tool.execute(ctx.toolCallId, ctx.input, ctx.signal, onUpdate)
+      );
+      const result = await raceAbort(execution, controller.signal);
       
-      // Send success result
+      if (result.details !== undefined) {
+        this.toolResultDetails.set(req.tool_call_id, result.details);
+      }
       await this.transport.write({
         type: "control_response",
         response: {
@@ -497,25 +993,92 @@ export class Session implements AsyncDisposable {
           request_id: requestId,
           tool_call_id: req.tool_call_id,
           content: result.content,
-          is_error: false,
+          is_error: result.isError ?? false,
         },
       });
-      sessionLog("executeExternalTool", `${req.tool_name} completed successfully`);
+      sessionLog("executeExternalTool", `${req.tool_name} completed${result.isError ? " with an error result" : " successfully"}`);
     } catch (err) {
       // Send error result
       const errorMessage = err instanceof Error ? err.message : String(err);
       sessionLog("executeExternalTool", `${req.tool_name} failed: ${errorMessage}`);
+      // Bad input from a read*Param helper is phrased like schema validation failures
+      const text = err instanceof ToolParamError
+        ? `Invalid arguments for tool ${req.tool_name}:\n- ${errorMessage}\nFix the arguments and call the tool again.`
+        : `Tool execution error: ${errorMessage}`;
       await this.transport.write({
         type: "control_response",
         response: {
           subtype: "external_tool_result",
           request_id: requestId,
           tool_call_id: req.tool_call_id,
-          content: [{ type: "text", text: `Tool execution error: ${errorMessage}` }],
+          content: [{ type: "text", text }],
           is_error: true,
         },
       });
+    } finally {
+      clearTimeout(timer);
+      // A timed-out or aborted call may still be running; it keeps its
+      // concurrency slot until it actually settles
+      if (releaseSlot && execution) {
+        execution.then(releaseSlot, releaseSlot);
+      } else {
+        releaseSlot?.();
+      }
+      turnSignal.removeEventListener("abort", onTurnAbort);
+      this.toolAbortControllers.delete(req.tool_call_id);
+    }
+  }
+
+  /**
+   * Wait for a free execution slot for `tool` (if it has a concurrency limit).
+   * Returns the release function. Rejects if the call is aborted while queued.
+   */
+  private async acquireToolSlot(tool: AnyAgentTool, signal: AbortSignal): Promise<() => void> {
+    const limit = tool.maxConcurrency ?? this.options.toolMaxConcurrency;
+    if (limit === undefined) {
+      return () => {};
+    }
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+
+    let slot = this.toolSlots.get(tool.name);
+    if (!slot) {
+      slot = { active: 0, waiting: [] };
+      this.toolSlots.set(tool.name, slot);
+    }
+    const current = slot;
+
+    if (current.active < limit) {
+      current.active++;
+    } else {
+      sessionLog("executeExternalTool", `${tool.name} at concurrency limit (${limit}), queueing call`);
+      await new Promise<void>((resolve, reject) => {
+        const start = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          current.waiting.splice(current.waiting.indexOf(start), 1);
+          reject(signal.reason);
+        };
+        current.waiting.push(start);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+      // The releasing call handed its slot over, so active is unchanged
     }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = current.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        current.active--;
+      }
+    };
   }
 
   /**
@@ -525,7 +1088,10 @@ export class Session implements AsyncDisposable {
     requestId: string,
     req: CanUseToolControlRequest
   ): Promise<void> {
+    const receivedAt = Date.now();
     let response: CanUseToolResponse;
+    let mechanism: PermissionDecisionMechanism;
+    let callbackError: string | undefined;
     const toolName = req.tool_name;
     const hasCallback = typeof this.options.canUseTool === "function";
     const toolNeedsRuntimeUserInput = requiresRuntimeUserInput(toolName);
@@ -534,8 +1100,15 @@ export class Session implements AsyncDisposable {
 
     sessionLog("canUseTool", `tool=${toolName} mode=${this.options.permissionMode || "default"} requestId=${requestId}`);
 
+    const sessionDecision = toolNeedsRuntimeUserInput
+      ? undefined
+      : this.sessionPermissionRules?.evaluate(toolName, req.input);
+    const cachedRule =
+      sessionDecision?.rule !== undefined && sessionDecision.behavior !== "ask" ? sessionDecision : undefined;
+
     // Tools that require runtime user input cannot be auto-allowed without a callback.
     if (toolNeedsRuntimeUserInput && !hasCallback) {
+      mechanism = "default-deny";
       response = {
         behavior: "deny",
         message: "No canUseTool callback registered",
@@ -547,28 +1120,54 @@ export class Session implements AsyncDisposable {
     ) {
       // bypassPermissions auto-allows non-interactive tools.
       sessionLog("canUseTool", `AUTO-ALLOW ${toolName} (bypassPermissions)`);
+      mechanism = "bypass";
       response = {
         behavior: "allow",
         updatedInput: null,
         updatedPermissions: [],
       } satisfies CanUseToolResponseAllow;
+    } else if (hasCallback && cachedRule) {
+      // A rule saved from an earlier "always allow" answers without the callback
+      sessionLog("canUseTool", `${cachedRule.behavior.toUpperCase()} ${toolName} (session rule: ${cachedRule.rule})`);
+      mechanism = "session-rule";
+      response = cachedRule.behavior === "allow"
+        ? { behavior: "allow", updatedInput: null, updatedPermissions: [] } satisfies CanUseToolResponseAllow
+        : { behavior: "deny", message: cachedRule.message ?? "Denied by session permission rule", interrupt: false } satisfies CanUseToolResponseDeny;
     } else if (hasCallback) {
+      mechanism = "callback";
       try {
-        const result = await this.options.canUseTool!(toolName, req.input);
+        const result = await this.options.canUseTool!(toolName, req.input, {
+          toolCallId: req.tool_call_id,
+          agentId: this._agentId,
+          conversationId: this._conversationId,
+          sessionId: this._sessionId,
+          permissionMode: this.options.permissionMode ?? "default",
+          suggestions: (req.permission_suggestions ?? []).filter(
+            (s): s is PermissionUpdate => typeof s === "object" && s !== null && "type" in s
+          ),
+          blockedPath: req.blocked_path ?? null,
+          turn: this.turnCount,
+          signal: this.turnAbortController.signal,
+        });
         if (result.behavior === "allow") {
+          const updatedPermissions = result.updatedPermissions ?? [];
+          if (updatedPermissions.length > 0) {
+            this.rememberPermissionUpdates(updatedPermissions);
+          }
           response = {
             behavior: "allow",
             updatedInput: result.updatedInput ?? null,
-            updatedPermissions: [], // TODO: not implemented
+            updatedPermissions,
           } satisfies CanUseToolResponseAllow;
         } else {
           response = {
             behavior: "deny",
             message: result.message ?? "Denied by canUseTool callback",
-            interrupt: false, // TODO: not wired up yet
+            interrupt: result.interrupt === true,
           } satisfies CanUseToolResponseDeny;
         }
       } catch (err) {
+        callbackError = err instanceof Error ? err.message : String(err);
         response = {
           behavior: "deny",
           message: err instanceof Error ? err.message : "Callback error",
@@ -579,6 +1178,7 @@ export class Session implements AsyncDisposable {
       // Default headless behavior matches Claude: EnterPlanMode can proceed
       // without requiring a callback in bidirectional mode.
       sessionLog("canUseTool", `AUTO-ALLOW ${toolName} (default behavior)`);
+      mechanism = "auto-allow";
       response = {
         behavior: "allow",
         updatedInput: null,
@@ -586,6 +1186,7 @@ export class Session implements AsyncDisposable {
       } satisfies CanUseToolResponseAllow;
     } else {
       // No callback registered - deny by default
+      mechanism = "default-deny";
       response = {
         behavior: "deny",
         message: "No canUseTool callback registered",
@@ -596,15 +1197,79 @@ export class Session implements AsyncDisposable {
     // Send control_response (Claude SDK compatible format)
     const responseBehavior = "behavior" in response ? response.behavior : "unknown";
     sessionLog("canUseTool", `responding: requestId=${requestId} behavior=${responseBehavior}`);
-    await this.transport.write({
-      type: "control_response",
-      response: {
-        subtype: "success",
-        request_id: requestId,
-        response,
-      },
-    });
-    sessionLog("canUseTool", `response sent for ${toolName}`);
+    let writeError: string | undefined;
+    try {
+      await this.transport.write({
+        type: "control_response",
+        response: {
+          subtype: "success",
+          request_id: requestId,
+          response,
+        },
+      });
+      sessionLog("canUseTool", `response sent for ${toolName}`);
+
+      // The CLI only stops the tool call and may carry on, so end the turn
+      // SDK-side as well; stream() reports it without waiting for the CLI
+      if (response.behavior === "deny" && response.interrupt && !this.turnAbortReason) {
+        this.permissionInterrupt = { toolName, toolCallId: req.tool_call_id, message: response.message };
+        this.abortTurn("permission_interrupt");
+      }
+    } catch (err) {
+      writeError = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      // Audit the decision even when the response couldn't be delivered
+      if (this.options.onPermissionDecision) {
+        this.reportPermissionDecision({
+          timestamp: new Date(receivedAt).toISOString(),
+          requestId,
+          toolCallId: req.tool_call_id,
+          toolName,
+          input: req.input,
+          behavior: response.behavior,
+          mechanism,
+          ...(response.behavior === "deny"
+            ? { message: response.message, interrupt: response.interrupt === true }
+            : {
+                ...(response.updatedInput ? { updatedInput: response.updatedInput } : {}),
+                ...(response.updatedPermissions?.length
+                  ? { updatedPermissions: response.updatedPermissions as PermissionUpdate[] }
+                  : {}),
+              }),
+          ...(callbackError !== undefined ? { error: callbackError } : {}),
+          ...(writeError !== undefined ? { writeError } : {}),
+          latencyMs: Date.now() - receivedAt,
+          permissionMode: this.options.permissionMode ?? "default",
+          turn: this.turnCount,
+          agentId: this._agentId,
+          conversationId: this._conversationId,
+          sessionId: this._sessionId,
+        });
+      }
+    }
+  }
+
+  private reportPermissionDecision(record: PermissionAuditRecord): void {
+    Promise.resolve()
+      .then(() => this.options.onPermissionDecision!(record))
+      .catch((err) => {
+        sessionLog("canUseTool", `onPermissionDecision failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  /**
+   * Remember permission updates returned by canUseTool so later matching
+   * requests are answered SDK-side. "ask" rules aren't cached.
+   */
+  private rememberPermissionUpdates(updates: PermissionUpdate[]): void {
+    const cacheable = updates
+      .filter((update) => update.type === "addRules" && update.behavior !== "ask")
+      .map((update) => ({ ...update, rules: Array.isArray(update.rules) ? update.rules : [] }));
+    if (cacheable.length === 0) return;
+    this.sessionPermissionRules ??= new PermissionPolicy({ cwd: this.options.cwd, defaultEffect: "ask" });
+    this.sessionPermissionRules.applyUpdates(cacheable);
+    sessionLog("canUseTool", `saved ${cacheable.reduce((n, u) => n + u.rules.length, 0)} session permission rule(s)`);
   }
 
   /**
@@ -612,6 +1277,7 @@ export class Session implements AsyncDisposable {
    */
   async abort(): Promise<void> {
     sessionLog("abort", `aborting session (agent=${this._agentId})`);
+    this.abortExternalTools("Session interrupted");
     await this.transport.write({
       type: "control_request",
       request_id: `interrupt-${Date.now()}`,
@@ -619,6 +1285,23 @@ export class Session implements AsyncDisposable {
     });
   }
 
+  private abortExternalTools(reason: string): void {
+    for (const [toolCallId, controller] of this.toolAbortControllers) {
+      sessionLog("abort", `aborting external tool call ${toolCallId}`);
+      controller.abort(new Error(reason));
+    }
+  }
+
+  private disposeExternalTools(): void {
+    for (const tool of this.attachedTools) {
+      if (!tool.dispose) continue;
+      Promise.resolve()
+        .then(() => tool.dispose!())
+        .catch((err) => sessionLog("close", `dispose failed for tool ${tool.name}:`, err));
+    }
+    this.attachedTools.clear();
+  }
+
   /**
    * Fetch a page of conversation messages via the CLI control protocol.
    *
@@ -763,6 +1446,11 @@ export class Session implements AsyncDisposable {
    */
   close(): void {
     sessionLog("close", `closing session (agent=${this._agentId}, conversation=${this._conversationId})`);
+    this.disposeTurnAbortWatchers();
+    this.abortExternalTools("Session closed");
+    this.turnAbortController.abort(new Error("Session closed"));
+    this.disposeExternalTools();
+    this.toolResultDetails.clear();
     this.transport.close();
     this.pumpClosed = true;
     this.resolveAllStreamWaiters(null);
@@ -789,6 +1477,13 @@ export class Session implements AsyncDisposable {
     return this._conversationId;
   }
 
+  /**
+   * Number of stream messages discarded by the buffer policy so far
+   */
+  get droppedStreamMessages(): number {
+    return this._droppedStreamMessages;
+  }
+
   /**
    * AsyncDisposable implementation for `await using`
    */
@@ -796,6 +1491,85 @@ export class Session implements AsyncDisposable {
     this.close();
   }
 
+  /**
+   * Transform wire message to SDK messages.
+   *
+   * Identical to transformMessage() except that a tool call message carrying
+   * several parallel calls yields one SDKToolCallMessage per call.
+   */
+  private transformMessages(wireMsg: WireMessage | MessageWire): SDKMessage[] {
+    const wireMsgAny = wireMsg as unknown as Record<string, unknown>;
+    if (
+      wireMsg.type === "message" &&
+      (wireMsgAny.message_type === "tool_call_message" ||
+        wireMsgAny.message_type === "approval_request_message")
+    ) {
+      const uuid = wireMsgAny.uuid as string;
+      const approval = wireMsgAny.message_type === "approval_request_message";
+      return this.getWireToolCalls(wireMsgAny)
+        .map((tc) => this.transformToolCall(tc, uuid, approval))
+        .filter((m): m is SDKToolCallMessage => m !== null);
+    }
+
+    const sdkMsg = this.transformMessage(wireMsg);
+    return sdkMsg ? [sdkMsg] : [];
+  }
+
+  /**
+   * Tool calls on a tool_call_message / approval_request_message.
+   * Prefers the tool_calls array (parallel calls) over the legacy tool_call field.
+   */
+  private getWireToolCalls(wireMsg: Record<string, unknown>): Array<Record<string, unknown>> {
+    const toolCalls = wireMsg.tool_calls as Array<Record<string, unknown>> | undefined;
+    if (Array.isArray(toolCalls) && toolCalls.length > 0) {
+      return toolCalls.filter((tc) => tc && typeof tc === "object");
+    }
+    const toolCall = wireMsg.tool_call as Record<string, unknown> | undefined;
+    return toolCall ? [toolCall] : [];
+  }
+
+  /**
+   * Map a single wire tool call (flat or OpenAI nested `function` shape)
+   */
+  private transformToolCall(
+    toolCallRaw: Record<string, unknown>,
+    uuid: string,
+    approval = false,
+  ): SDKToolCallMessage | null {
+    const fnObj = toolCallRaw.function as Record<string, unknown> | undefined;
+    const toolCallId =
+      (toolCallRaw.tool_call_id as string | undefined) ??
+      (toolCallRaw.id as string | undefined);
+    if (!toolCallId) {
+      return null;
+    }
+
+    const toolName =
+      (toolCallRaw.name as string | undefined) ??
+      (fnObj?.name as string | undefined) ??
+      "?";
+    const toolArgs =
+      (toolCallRaw.arguments as string | undefined) ??
+      (fnObj?.arguments as string | undefined) ??
+      "";
+
+    let toolInput: Record<string, unknown> = {};
+    try {
+      toolInput = JSON.parse(toolArgs);
+    } catch {
+      toolInput = { raw: toolArgs };
+    }
+    return {
+      type: "tool_call",
+      toolCallId,
+      toolName,
+      toolInput,
+      rawArguments: toolArgs || undefined,
+      ...(approval ? { approval: true } : {}),
+      uuid,
+    };
+  }
+
   /**
    * Transform wire message to SDK message
    */
@@ -866,52 +1640,28 @@ export class Session implements AsyncDisposable {
       }
 
       // Tool call message (tool_call_message = auto-executed, approval_request_message = needs approval)
+      // Only the first parallel call is returned here; transformMessages() fans out.
       if (msg.message_type === "tool_call_message" || msg.message_type === "approval_request_message") {
-        const toolCallRaw = (msg.tool_calls?.[0] || msg.tool_call) as Record<string, unknown> | undefined;
+        const toolCallRaw = this.getWireToolCalls(msg as unknown as Record<string, unknown>)[0];
         if (toolCallRaw) {
-          const fnObj = toolCallRaw.function as Record<string, unknown> | undefined;
-          const toolCallId =
-            (toolCallRaw.tool_call_id as string | undefined) ??
-            (toolCallRaw.id as string | undefined);
-          if (!toolCallId) {
-            return null;
-          }
-
-          const toolName =
-            (toolCallRaw.name as string | undefined) ??
-            (fnObj?.name as string | undefined) ??
-            "?";
-          const toolArgs =
-            (toolCallRaw.arguments as string | undefined) ??
-            (fnObj?.arguments as string | undefined) ??
-            "";
-
-          let toolInput: Record<string, unknown> = {};
-          try {
-            toolInput = JSON.parse(toolArgs);
-          } catch {
-            toolInput = { raw: toolArgs };
-          }
-          return {
-            type: "tool_call",
-            toolCallId,
-            toolName,
-            toolInput,
-            rawArguments: toolArgs || undefined,
-            uuid: msg.uuid,
-          };
+          return this.transformToolCall(toolCallRaw, msg.uuid, msg.message_type === "approval_request_message");
         }
       }
 
       // Tool return message
       if (msg.message_type === "tool_return_message" && msg.tool_call_id) {
-        return {
+        const result: SDKToolResultMessage = {
           type: "tool_result",
           toolCallId: msg.tool_call_id,
           content: msg.tool_return || "",
           isError: msg.status === "error",
           uuid: msg.uuid,
         };
+        if (this.toolResultDetails.has(msg.tool_call_id)) {
+          result.details = this.toolResultDetails.get(msg.tool_call_id);
+          this.toolResultDetails.delete(msg.tool_call_id);
+        }
+        return result;
       }
 
       // Reasoning message
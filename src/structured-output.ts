@@ -0,0 +1,89 @@
+/**
+ * Structured Output
+ *
+ * Helpers behind session.run({ outputSchema }): instruct the agent to answer
+ * with JSON, pull that JSON back out of the reply, and phrase correction turns.
+ */
+
+import { formatSchemaIssues, validateSchema } from "./json-schema.js";
+import type { OutputSchema, SchemaIssue, SendMessage } from "./types.js";
+
+export const DEFAULT_MAX_OUTPUT_CORRECTIONS = 2;
+
+/**
+ * Append the output contract to the user's message
+ */
+export function withOutputInstruction(message: SendMessage, schema: OutputSchema): SendMessage {
+  const instruction =
+    "Respond with only a JSON value that matches this JSON Schema, " +
+    "inside a single ```json code block, with no other commentary:\n" +
+    JSON.stringify(schema, null, 2);
+
+  if (typeof message === "string") {
+    return `${message}\n\n${instruction}`;
+  }
+  return [...message, { type: "text", text: instruction }];
+}
+
+/**
+ * Build the follow-up turn sent when the reply didn't validate
+ */
+export function buildCorrectionMessage(problem: string): string {
+  return (
+    "Your previous response did not match the required JSON Schema:\n" +
+    `${problem}\n\n` +
+    "Reply with only the corrected JSON inside a single ```json code block."
+  );
+}
+
+/**
+ * Extract a JSON value from assistant text.
+ *
+ * Tries, in order: the last fenced code block, the whole reply, and the
+ * outermost {...} or [...] span.
+ */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  const candidates: string[] = [];
+
+  const fences = Array.from(text.matchAll(/```(?:json)?\s*\n?([\s\S]*?)```/g));
+  const lastFence = fences[fences.length - 1];
+  if (lastFence?.[1]) {
+    candidates.push(lastFence[1]);
+  }
+  candidates.push(text);
+  for (const [open, close] of [["{", "}"], ["[", "]"]] as const) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate.trim()) as unknown };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return { ok: false };
+}
+
+/**
+ * Extract and validate. Returns the value, or the issues to report back.
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: OutputSchema,
+): { ok: true; value: unknown } | { ok: false; issues: SchemaIssue[]; message: string } {
+  const extracted = extractJson(text);
+  if (!extracted.ok) {
+    const issues = [{ path: "", message: "response did not contain valid JSON" }];
+    return { ok: false, issues, message: formatSchemaIssues(issues) };
+  }
+  const issues = validateSchema(schema, extracted.value);
+  if (issues.length > 0) {
+    return { ok: false, issues, message: formatSchemaIssues(issues) };
+  }
+  return { ok: true, value: extracted.value };
+}
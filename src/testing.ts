@@ -0,0 +1,723 @@
+/**
+ * Testing Kit
+ *
+ * An in-memory fake of the Letta Code CLI that speaks the stream-json
+ * protocol, for unit testing SDK consumers without a subprocess or network.
+ *
+ * @example
+ * ```typescript
+ * import { createSession } from '@letta-ai/letta-code-sdk';
+ * import { FakeCli } from '@letta-ai/letta-code-sdk/testing';
+ *
+ * const cli = new FakeCli();
+ * cli.enqueueTurn([
+ *   { type: 'reasoning', content: 'Thinking...' },
+ *   { type: 'assistant', content: 'Hello!' },
+ * ]);
+ *
+ * const session = createSession('agent-test', { transport: cli });
+ * await session.send('Hi');
+ * for await (const msg of session.stream()) {
+ *   // reasoning, assistant, result
+ * }
+ * ```
+ */
+
+import type {
+  AgentToolResultContent,
+  CanUseToolResponse,
+  SendMessage,
+  Transport,
+  WireMessage,
+} from "./types.js";
+
+// All logging gated behind DEBUG_SDK env var
+function fakeLog(tag: string, ...args: unknown[]) {
+  if (process.env.DEBUG_SDK) console.error(`[SDK-FakeCli] [${tag}]`, ...args);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SCRIPT TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A single scripted step in a fake turn.
+ *
+ * Steps run in order after the SDK sends a user message. If the script does
+ * not end with a `result` step, a successful result is emitted automatically
+ * with the last assistant message as its `result` text.
+ */
+export type FakeTurnStep =
+  | { type: "assistant"; content: string }
+  | { type: "reasoning"; content: string }
+  | {
+      type: "tool_call";
+      toolName: string;
+      toolInput?: Record<string, unknown>;
+      toolCallId?: string;
+      /** Emit as approval_request_message instead of tool_call_message */
+      approval?: boolean;
+    }
+  | {
+      type: "tool_return";
+      toolCallId: string;
+      content: string;
+      isError?: boolean;
+    }
+  | {
+      /**
+       * Emit an approval_request_message, issue a can_use_tool control
+       * request and wait for the SDK's decision. Allowed calls produce a
+       * successful tool_return with `output`; denied calls produce an error
+       * tool_return carrying the denial message.
+       */
+      type: "can_use_tool";
+      toolName: string;
+      input?: Record<string, unknown>;
+      toolCallId?: string;
+      output?: string;
+    }
+  | {
+      /**
+       * Emit a tool_call_message, issue an execute_external_tool control
+       * request and wait for the SDK-side tool result, then emit the
+       * matching tool_return_message.
+       */
+      type: "execute_external_tool";
+      toolName: string;
+      input?: Record<string, unknown>;
+      toolCallId?: string;
+    }
+  | { type: "stream_event"; event: Record<string, unknown> }
+  | { type: "error"; message: string; stopReason?: string }
+  | {
+      type: "retry";
+      reason?: string;
+      attempt: number;
+      maxAttempts: number;
+      delayMs?: number;
+    }
+  | {
+      type: "result";
+      success?: boolean;
+      result?: string;
+      stopReason?: string;
+      durationMs?: number;
+    }
+  /** Escape hatch: emit an arbitrary wire message verbatim */
+  | { type: "wire"; message: Record<string, unknown> };
+
+/**
+ * Result of an execute_external_tool round-trip as seen by the fake CLI.
+ */
+export interface FakeExternalToolResult {
+  content: AgentToolResultContent[];
+  isError: boolean;
+}
+
+/**
+ * Imperative API handed to function-style turn scripts.
+ */
+export interface FakeTurnContext {
+  /** Content of the user message that started this turn */
+  message: SendMessage;
+  /** 1-based turn number */
+  turn: number;
+  /** Aborted when the SDK sends an interrupt control request */
+  signal: AbortSignal;
+  assistant(content: string): void;
+  reasoning(content: string): void;
+  /** Emit a tool call message. Returns the tool call ID. */
+  toolCall(
+    toolName: string,
+    toolInput?: Record<string, unknown>,
+    options?: { toolCallId?: string; approval?: boolean },
+  ): string;
+  toolReturn(toolCallId: string, content: string, isError?: boolean): void;
+  streamEvent(event: Record<string, unknown>): void;
+  error(message: string, stopReason?: string): void;
+  retry(attempt: number, maxAttempts: number, options?: { reason?: string; delayMs?: number }): void;
+  /** Issue a can_use_tool control request and wait for the SDK's decision */
+  requestPermission(
+    toolName: string,
+    input?: Record<string, unknown>,
+    options?: { toolCallId?: string; suggestions?: unknown[]; blockedPath?: string },
+  ): Promise<CanUseToolResponse>;
+  /** Issue an execute_external_tool control request and wait for its result */
+  executeExternalTool(
+    toolName: string,
+    input?: Record<string, unknown>,
+    options?: { toolCallId?: string },
+  ): Promise<FakeExternalToolResult>;
+  /** Emit the turn's result message. Further output in this turn is ignored. */
+  result(options?: { success?: boolean; result?: string; stopReason?: string; durationMs?: number }): void;
+  /** Emit an arbitrary wire message verbatim */
+  emit(message: Record<string, unknown>): void;
+}
+
+/**
+ * A scripted turn: either a list of steps or a function driving the context.
+ */
+export type FakeTurn =
+  | FakeTurnStep[]
+  | ((ctx: FakeTurnContext) => void | Promise<void>);
+
+/**
+ * External tool definition as registered by the SDK.
+ */
+export interface FakeRegisteredTool {
+  name: string;
+  label?: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Options for FakeCli.
+ */
+export interface FakeCliOptions {
+  /** Defaults to "agent-fake" */
+  agentId?: string;
+  /** Defaults to "session-fake" */
+  sessionId?: string;
+  /** Defaults to "conv-fake" */
+  conversationId?: string;
+  /** Defaults to "fake-model" */
+  model?: string;
+  /** Built-in tool names reported by init. Defaults to [] */
+  tools?: string[];
+  /** Extra fields merged into the system/init message */
+  init?: Record<string, unknown>;
+  /**
+   * Conversation history served by list_messages and bootstrap_session_state,
+   * oldest first. Entries should carry an `id` for cursor pagination.
+   */
+  history?: unknown[];
+  /** Turns to run for successive user messages */
+  turns?: FakeTurn[];
+  /** Turn to run when no scripted turn is queued (default: error result) */
+  defaultTurn?: FakeTurn;
+}
+
+class FakeCliClosedError extends Error {
+  constructor() {
+    super("FakeCli closed");
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FAKE CLI
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Scriptable in-memory CLI implementing the Transport interface.
+ *
+ * Pass an instance as the `transport` option of createSession/resumeSession.
+ * Every SDK write is recorded in `writes`; user messages and registered
+ * external tools are also exposed for assertions.
+ */
+export class FakeCli implements Transport {
+  /** Every message the SDK wrote, in order */
+  readonly writes: Array<Record<string, unknown>> = [];
+  /** Content of every user message the SDK sent */
+  readonly userMessages: SendMessage[] = [];
+  /**
+   * External tools currently registered. Like the CLI, register_external_tools
+   * adds or replaces by name, and unregister_external_tools is answered with
+   * an unsupported-subtype error.
+   */
+  registeredTools: FakeRegisteredTool[] = [];
+  /** Number of interrupt control requests received */
+  interruptCount = 0;
+
+  private queue: WireMessage[] = [];
+  private resolvers: Array<(msg: WireMessage | null) => void> = [];
+  private closed = false;
+  private turns: FakeTurn[];
+  private turnCount = 0;
+  private turnChain: Promise<void> = Promise.resolve();
+  private turnAbort: AbortController | null = null;
+  private idCounter = 0;
+  private pendingControlRequests = new Map<
+    string,
+    { resolve: (response: Record<string, unknown>) => void; reject: (err: Error) => void }
+  >();
+
+  constructor(private options: FakeCliOptions = {}) {
+    this.turns = [...(options.turns ?? [])];
+  }
+
+  get agentId(): string {
+    return this.options.agentId ?? "agent-fake";
+  }
+
+  get sessionId(): string {
+    return this.options.sessionId ?? "session-fake";
+  }
+
+  get conversationId(): string {
+    return this.options.conversationId ?? "conv-fake";
+  }
+
+  /**
+   * Queue a turn to run for the next unanswered user message
+   */
+  enqueueTurn(turn: FakeTurn): this {
+    this.turns.push(turn);
+    return this;
+  }
+
+  /**
+   * Emit a wire message to the SDK outside of any turn
+   */
+  emit(message: Record<string, unknown>): void {
+    if (this.closed) {
+      return;
+    }
+    const msg = message as unknown as WireMessage;
+    if (this.resolvers.length > 0) {
+      const resolve = this.resolvers.shift()!;
+      resolve(msg);
+      return;
+    }
+    this.queue.push(msg);
+  }
+
+  /**
+   * Resolve once every turn started so far has finished running
+   */
+  async idle(): Promise<void> {
+    await this.turnChain;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Transport
+  // ─────────────────────────────────────────────────────────────
+
+  async connect(): Promise<void> {
+    fakeLog("connect", `agent=${this.agentId} conversation=${this.conversationId}`);
+  }
+
+  async write(data: object): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport not connected (closed=true)");
+    }
+    const msg = data as Record<string, unknown>;
+    this.writes.push(msg);
+
+    if (msg.type === "control_request") {
+      this.handleControlRequest(msg.request_id as string, msg.request as Record<string, unknown>);
+    } else if (msg.type === "control_response") {
+      const response = msg.response as Record<string, unknown>;
+      const pending = this.pendingControlRequests.get(response.request_id as string);
+      if (pending) {
+        this.pendingControlRequests.delete(response.request_id as string);
+        pending.resolve(response);
+      } else {
+        fakeLog("write", `unmatched control_response request_id=${String(response.request_id)}`);
+      }
+    } else if (msg.type === "user") {
+      const content = (msg.message as { content: SendMessage }).content;
+      this.userMessages.push(content);
+      this.turnChain = this.turnChain.then(() => this.runTurn(content));
+    }
+  }
+
+  async *messages(): AsyncGenerator<WireMessage> {
+    while (true) {
+      const msg = await this.read();
+      if (msg === null) {
+        return;
+      }
+      yield msg;
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.turnAbort?.abort();
+    for (const resolve of this.resolvers) {
+      resolve(null);
+    }
+    this.resolvers = [];
+    for (const pending of this.pendingControlRequests.values()) {
+      pending.reject(new FakeCliClosedError());
+    }
+    this.pendingControlRequests.clear();
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  private async read(): Promise<WireMessage | null> {
+    if (this.queue.length > 0) {
+      return this.queue.shift()!;
+    }
+    if (this.closed) {
+      return null;
+    }
+    return new Promise((resolve) => {
+      this.resolvers.push(resolve);
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // SDK → CLI control requests
+  // ─────────────────────────────────────────────────────────────
+
+  private handleControlRequest(requestId: string, request: Record<string, unknown>): void {
+    const subtype = request.subtype as string;
+    fakeLog("control_request", `subtype=${subtype} id=${requestId}`);
+
+    switch (subtype) {
+      case "initialize":
+        this.respond(requestId, {});
+        this.emit({
+          type: "system",
+          subtype: "init",
+          session_id: this.sessionId,
+          uuid: this.nextId("init"),
+          agent_id: this.agentId,
+          conversation_id: this.conversationId,
+          model: this.options.model ?? "fake-model",
+          tools: this.options.tools ?? [],
+          cwd: process.cwd(),
+          mcp_servers: [],
+          permission_mode: "default",
+          slash_commands: [],
+          ...this.options.init,
+        });
+        return;
+      case "interrupt":
+        this.interruptCount++;
+        this.turnAbort?.abort();
+        this.respond(requestId, {});
+        return;
+      case "register_external_tools": {
+        const tools = (request.tools as FakeRegisteredTool[]) ?? [];
+        const names = new Set(tools.map((t) => t.name));
+        this.registeredTools = [
+          ...this.registeredTools.filter((t) => !names.has(t.name)),
+          ...tools,
+        ];
+        this.respond(requestId, {});
+        return;
+      }
+      case "list_messages":
+        this.respond(requestId, this.listHistory(request));
+        return;
+      case "bootstrap_session_state": {
+        const page = this.listHistory(request);
+        this.respond(requestId, {
+          agent_id: this.agentId,
+          conversation_id: this.conversationId,
+          model: this.options.model ?? "fake-model",
+          tools: this.options.tools ?? [],
+          memfs_enabled: (this.options.init?.memfs_enabled as boolean | undefined) ?? false,
+          ...page,
+          has_pending_approval: false,
+        });
+        return;
+      }
+      default:
+        this.emit({
+          type: "control_response",
+          response: {
+            subtype: "error",
+            request_id: requestId,
+            error: `Unsupported control request: ${subtype}`,
+          },
+        });
+    }
+  }
+
+  private respond(requestId: string, response: Record<string, unknown>): void {
+    this.emit({
+      type: "control_response",
+      response: { subtype: "success", request_id: requestId, response },
+    });
+  }
+
+  private listHistory(request: Record<string, unknown>): {
+    messages: unknown[];
+    next_before: string | null;
+    has_more: boolean;
+  } {
+    const history = this.options.history ?? [];
+    const idOf = (m: unknown) => (m as { id?: string } | null)?.id;
+    let start = 0;
+    let end = history.length;
+    if (typeof request.before === "string") {
+      const idx = history.findIndex((m) => idOf(m) === request.before);
+      if (idx >= 0) end = idx;
+    }
+    if (typeof request.after === "string") {
+      const idx = history.findIndex((m) => idOf(m) === request.after);
+      if (idx >= 0) start = idx + 1;
+    }
+    const window = history.slice(start, end);
+    const order = request.order === "asc" ? "asc" : "desc";
+    const limit = typeof request.limit === "number" ? request.limit : 50;
+    const ordered = order === "asc" ? window : [...window].reverse();
+    const page = ordered.slice(0, limit);
+    const oldest = order === "asc" ? page[0] : page[page.length - 1];
+    return {
+      messages: page,
+      next_before: oldest ? (idOf(oldest) ?? null) : null,
+      has_more: ordered.length > page.length,
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // CLI → SDK control requests
+  // ─────────────────────────────────────────────────────────────
+
+  private sendControlRequest(request: Record<string, unknown>): Promise<Record<string, unknown>> {
+    if (this.closed) {
+      return Promise.reject(new FakeCliClosedError());
+    }
+    const requestId = this.nextId("fake-req");
+    const promise = new Promise<Record<string, unknown>>((resolve, reject) => {
+      this.pendingControlRequests.set(requestId, { resolve, reject });
+    });
+    this.emit({ type: "control_request", request_id: requestId, request });
+    return promise;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Turns
+  // ─────────────────────────────────────────────────────────────
+
+  private async runTurn(message: SendMessage): Promise<void> {
+    const turn = this.turns.shift() ?? this.options.defaultTurn;
+    this.turnCount++;
+    const abort = new AbortController();
+    this.turnAbort = abort;
+    const startedAt = Date.now();
+    let lastAssistant: string | null = null;
+    let resultSent = false;
+
+    const envelope = () => ({ session_id: this.sessionId, uuid: this.nextId("msg") });
+    const send = (msg: Record<string, unknown>) => {
+      if (!resultSent) this.emit(msg);
+    };
+
+    const ctx: FakeTurnContext = {
+      message,
+      turn: this.turnCount,
+      signal: abort.signal,
+      assistant: (content) => {
+        lastAssistant = content;
+        send({ type: "message", message_type: "assistant_message", ...envelope(), content });
+      },
+      reasoning: (content) => {
+        send({ type: "message", message_type: "reasoning_message", ...envelope(), reasoning: content });
+      },
+      toolCall: (toolName, toolInput = {}, opts = {}) => {
+        const toolCallId = opts.toolCallId ?? this.nextId("call");
+        const toolCall = { name: toolName, arguments: JSON.stringify(toolInput), tool_call_id: toolCallId };
+        send({
+          type: "message",
+          message_type: opts.approval ? "approval_request_message" : "tool_call_message",
+          ...envelope(),
+          tool_call: toolCall,
+          tool_calls: [toolCall],
+        });
+        return toolCallId;
+      },
+      toolReturn: (toolCallId, content, isError = false) => {
+        send({
+          type: "message",
+          message_type: "tool_return_message",
+          ...envelope(),
+          tool_call_id: toolCallId,
+          tool_return: content,
+          status: isError ? "error" : "success",
+        });
+      },
+      streamEvent: (event) => {
+        send({ type: "stream_event", ...envelope(), event });
+      },
+      error: (errorMessage, stopReason = "error") => {
+        send({ type: "error", ...envelope(), message: errorMessage, stop_reason: stopReason });
+      },
+      retry: (attempt, maxAttempts, opts = {}) => {
+        send({
+          type: "retry",
+          ...envelope(),
+          reason: opts.reason ?? "llm_api_error",
+          attempt,
+          max_attempts: maxAttempts,
+          delay_ms: opts.delayMs ?? 0,
+        });
+      },
+      requestPermission: async (toolName, input = {}, opts = {}) => {
+        const response = await this.sendControlRequest({
+          subtype: "can_use_tool",
+          tool_name: toolName,
+          tool_call_id: opts.toolCallId ?? this.nextId("call"),
+          input,
+          permission_suggestions: opts.suggestions ?? [],
+          blocked_path: opts.blockedPath ?? null,
+        });
+        return response.response as CanUseToolResponse;
+      },
+      executeExternalTool: async (toolName, input = {}, opts = {}) => {
+        const response = await this.sendControlRequest({
+          subtype: "execute_external_tool",
+          tool_call_id: opts.toolCallId ?? this.nextId("call"),
+          tool_name: toolName,
+          input,
+        });
+        return {
+          content: (response.content as AgentToolResultContent[] | undefined) ?? [],
+          isError: response.is_error === true,
+        };
+      },
+      result: (opts = {}) => {
+        const success = opts.success ?? true;
+        send({
+          type: "result",
+          subtype: success ? "success" : "error",
+          ...envelope(),
+          agent_id: this.agentId,
+          conversation_id: this.conversationId,
+          duration_ms: opts.durationMs ?? Date.now() - startedAt,
+          duration_api_ms: 0,
+          num_turns: 1,
+          result: opts.result ?? lastAssistant,
+          run_ids: [],
+          usage: null,
+          ...(opts.stopReason || !success
+            ? { stop_reason: opts.stopReason ?? "error" }
+            : {}),
+        });
+        resultSent = true;
+      },
+      emit: (raw) => send(raw),
+    };
+
+    try {
+      if (!turn) {
+        ctx.error("FakeCli: no scripted turn for user message");
+        ctx.result({ success: false, stopReason: "error" });
+        return;
+      }
+
+      if (typeof turn === "function") {
+        await turn(ctx);
+      } else {
+        await this.runSteps(ctx, turn);
+      }
+
+      if (!resultSent) {
+        if (abort.signal.aborted) {
+          send({
+            type: "result",
+            subtype: "interrupted",
+            ...envelope(),
+            agent_id: this.agentId,
+            conversation_id: this.conversationId,
+            duration_ms: Date.now() - startedAt,
+            duration_api_ms: 0,
+            num_turns: 1,
+            result: null,
+            run_ids: [],
+            usage: null,
+            stop_reason: "cancelled",
+          });
+          resultSent = true;
+        } else {
+          ctx.result();
+        }
+      }
+    } catch (err) {
+      if (err instanceof FakeCliClosedError) {
+        return;
+      }
+      fakeLog("turn", `script error: ${err instanceof Error ? err.message : String(err)}`);
+      ctx.error(err instanceof Error ? err.message : String(err));
+      ctx.result({ success: false, stopReason: "error" });
+    } finally {
+      if (this.turnAbort === abort) {
+        this.turnAbort = null;
+      }
+    }
+  }
+
+  private async runSteps(ctx: FakeTurnContext, steps: FakeTurnStep[]): Promise<void> {
+    for (const step of steps) {
+      if (ctx.signal.aborted) {
+        return;
+      }
+      switch (step.type) {
+        case "assistant":
+          ctx.assistant(step.content);
+          break;
+        case "reasoning":
+          ctx.reasoning(step.content);
+          break;
+        case "tool_call":
+          ctx.toolCall(step.toolName, step.toolInput, {
+            toolCallId: step.toolCallId,
+            approval: step.approval,
+          });
+          break;
+        case "tool_return":
+          ctx.toolReturn(step.toolCallId, step.content, step.isError);
+          break;
+        case "can_use_tool": {
+          const toolCallId = ctx.toolCall(step.toolName, step.input, {
+            toolCallId: step.toolCallId,
+            approval: true,
+          });
+          const decision = await ctx.requestPermission(step.toolName, step.input, { toolCallId });
+          if (decision.behavior === "allow") {
+            ctx.toolReturn(toolCallId, step.output ?? "");
+          } else {
+            ctx.toolReturn(toolCallId, decision.message, true);
+          }
+          break;
+        }
+        case "execute_external_tool": {
+          const toolCallId = ctx.toolCall(step.toolName, step.input, {
+            toolCallId: step.toolCallId,
+          });
+          const result = await ctx.executeExternalTool(step.toolName, step.input, { toolCallId });
+          const text = result.content
+            .map((c) => (c.type === "text" ? (c.text ?? "") : `[${c.type}]`))
+            .join("\n");
+          ctx.toolReturn(toolCallId, text, result.isError);
+          break;
+        }
+        case "stream_event":
+          ctx.streamEvent(step.event);
+          break;
+        case "error":
+          ctx.error(step.message, step.stopReason);
+          break;
+        case "retry":
+          ctx.retry(step.attempt, step.maxAttempts, {
+            reason: step.reason,
+            delayMs: step.delayMs,
+          });
+          break;
+        case "result":
+          ctx.result(step);
+          return;
+        case "wire":
+          ctx.emit(step.message);
+          break;
+      }
+    }
+  }
+
+  private nextId(prefix: string): string {
+    this.idCounter++;
+    return `${prefix}-fake-${this.idCounter}`;
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RecordingTransport, ReplayTransport, readCassette } from "../cassette.js";
+import { createSession } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { CanUseToolCallback, CassetteEntry } from "../index.js";
+import type { SDKMessage } from "../types.js";
+
+async function runTurn(
+  session: ReturnType<typeof createSession>,
+  message: string,
+): Promise<SDKMessage[]> {
+  await session.send(message);
+  const out: SDKMessage[] = [];
+  for await (const msg of session.stream()) {
+    out.push(msg);
+  }
+  return out;
+}
+
+const allowLs: CanUseToolCallback = (_toolName, input) =>
+  input.command === "ls"
+    ? { behavior: "allow" }
+    : { behavior: "deny", message: "only ls" };
+
+async function recordApprovalTurn(path?: string): Promise<{
+  entries: CassetteEntry[];
+  messages: SDKMessage[];
+}> {
+  const cli = new FakeCli({
+    turns: [
+      [
+        { type: "reasoning", content: "need a listing" },
+        { type: "can_use_tool", toolName: "Bash", input: { command: "ls" }, output: "a.txt" },
+        { type: "assistant", content: "a.txt" },
+      ],
+    ],
+    history: [{ id: "m1", message_type: "user_message" }],
+  });
+  const recorder = new RecordingTransport(cli, { path });
+  const session = createSession("agent-fake", { transport: recorder, canUseTool: allowLs });
+  try {
+    const messages = await runTurn(session, "list files");
+    await session.listMessages({ limit: 5 });
+    return { entries: recorder.entries, messages };
+  } finally {
+    session.close();
+  }
+}
+
+describe("RecordingTransport", () => {
+  test("captures both directions with timing", async () => {
+    const { entries } = await recordApprovalTurn();
+
+    expect(entries[0]).toMatchObject({
+      direction: "sent",
+      message: { type: "control_request", request: { subtype: "initialize" } },
+    });
+    expect(entries.every((e) => typeof e.elapsedMs === "number" && e.elapsedMs >= 0)).toBe(true);
+    expect(
+      entries.some(
+        (e) => e.direction === "sent" && e.message.type === "user",
+      ),
+    ).toBe(true);
+    expect(
+      entries.some(
+        (e) =>
+          e.direction === "received" &&
+          (e.message.request as { subtype?: string } | undefined)?.subtype === "can_use_tool",
+      ),
+    ).toBe(true);
+  });
+
+  test("writes a JSONL cassette that readCassette parses back", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "letta-cassette-"));
+    try {
+      const path = join(dir, "nested", "turn.jsonl");
+      const { entries } = await recordApprovalTurn(path);
+      expect(readCassette(path)).toEqual(entries);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("ReplayTransport", () => {
+  test("replays a recorded turn deterministically", async () => {
+    const recorded = await recordApprovalTurn();
+
+    const replay = new ReplayTransport(recorded.entries);
+    const session = createSession("agent-fake", { transport: replay, canUseTool: allowLs });
+    try {
+      const messages = await runTurn(session, "list files");
+      const page = await session.listMessages({ limit: 5 });
+
+      expect(messages).toEqual(recorded.messages);
+      expect(page.messages).toEqual([{ id: "m1", message_type: "user_message" }]);
+      expect(() => replay.assertComplete()).not.toThrow();
+    } finally {
+      session.close();
+    }
+  });
+
+  test("flags outbound writes that diverge from the recording", async () => {
+    const recorded = await recordApprovalTurn();
+
+    const replay = new ReplayTransport(recorded.entries);
+    const session = createSession("agent-fake", {
+      transport: replay,
+      canUseTool: () => ({ behavior: "deny", message: "nope" }),
+    });
+    try {
+      await session.send("list files");
+      for await (const _msg of session.stream()) {
+        // drain until the pump stops on the mismatch
+      }
+
+      expect(replay.mismatches.length).toBe(1);
+      expect(replay.mismatches[0]).toContain("nope");
+      expect(() => replay.assertComplete()).toThrow("Replay mismatches");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("rejects a different user message", async () => {
+    const recorded = await recordApprovalTurn();
+
+    const replay = new ReplayTransport(recorded.entries);
+    const session = createSession("agent-fake", { transport: replay, canUseTool: allowLs });
+    try {
+      await session.initialize();
+      await expect(session.send("something else")).rejects.toThrow("Replay mismatch");
+    } finally {
+      session.close();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { createSession, defineTool, jsonResult, ToolParamError } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { StandardSchemaV1 } from "../types.js";
+
+// Minimal Standard Schema, shaped like a Zod object of { city: string; days: number }
+function weatherSchema(options: { withJsonSchema: boolean }): StandardSchemaV1<
+  { city: string; days?: number },
+  { city: string; days: number }
+> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) => {
+        const v = value as { city?: unknown; days?: unknown };
+        if (typeof v.city !== "string") {
+          return { issues: [{ message: "Expected string", path: [{ key: "city" }] }] };
+        }
+        return { value: { city: v.city.toUpperCase(), days: typeof v.days === "number" ? v.days : 1 } };
+      },
+      jsonSchema: options.withJsonSchema
+        ? {
+            input: () => ({
+              type: "object",
+              properties: { city: { type: "string" }, days: { type: "integer", default: 1 } },
+              required: ["city"],
+            }),
+          }
+        : undefined,
+    },
+  };
+}
+
+describe("defineTool", () => {
+  test("registers the Standard JSON Schema and executes with validated, typed args", async () => {
+    let received: { city: string; days: number } | undefined;
+    const weather = defineTool({
+      name: "get_weather",
+      description: "Weather forecast",
+      schema: weatherSchema({ withJsonSchema: true }),
+      execute: async (_id, args) => {
+        received = args;
+        return jsonResult({ city: args.city, forecastDays: args.days });
+      },
+    });
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "get_weather", input: { city: "paris" } }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [weather] });
+    try {
+      await session.run("weather?");
+
+      expect(cli.registeredTools[0]).toMatchObject({
+        name: "get_weather",
+        label: "get_weather",
+        parameters: { properties: { city: { type: "string" } }, required: ["city"] },
+      });
+      expect(received).toEqual({ city: "PARIS", days: 1 });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("reports Standard Schema issues to the model", async () => {
+    const weather = defineTool({
+      name: "get_weather",
+      description: "Weather forecast",
+      schema: weatherSchema({ withJsonSchema: false }),
+      parameters: { type: "object", properties: {} },
+      execute: async () => jsonResult({}),
+    });
+
+    const error = await weather.execute("tc-1", { city: 7 }).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ToolParamError);
+    expect(error).toMatchObject({ param: "city", message: "city: Expected string" });
+
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "get_weather", input: { city: 7 } }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [weather] });
+    try {
+      const turn = await session.run("weather?");
+
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        isError: true,
+        content: "Invalid arguments for tool get_weather:\n- city: Expected string\nFix the arguments and call the tool again.",
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("requires explicit parameters when the schema can't produce JSON Schema", () => {
+    expect(() =>
+      defineTool({
+        name: "get_weather",
+        description: "Weather forecast",
+        schema: weatherSchema({ withJsonSchema: false }),
+        execute: async () => jsonResult({}),
+      })
+    ).toThrow("Cannot derive JSON Schema for tool 'get_weather' from a test schema");
+  });
+
+  test("accepts plain JSON Schema", async () => {
+    const echo = defineTool({
+      name: "echo",
+      description: "Echo",
+      schema: { type: "object", properties: { text: { type: "string" } } },
+      execute: async (_id, args) => jsonResult(args.text),
+    });
+
+    expect(echo.parameters).toEqual({ type: "object", properties: { text: { type: "string" } } });
+    expect((await echo.execute("tc-1", { text: "hi" })).details).toBe("hi");
+  });
+});
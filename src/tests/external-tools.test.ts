@@ -0,0 +1,664 @@
+import { describe, expect, test } from "bun:test";
+import { createSession, errorResult, readIntegerParam, toolResult } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { AnyAgentTool, SDKMessage, ToolExecutionContext } from "../types.js";
+import { untilAborted } from "./helpers.js";
+
+function blockingTool(onStart: (signal: AbortSignal) => void): AnyAgentTool {
+  return {
+    label: "Blocking",
+    name: "blocking",
+    description: "Runs until aborted",
+    parameters: { type: "object", properties: {} },
+    execute: async (_id, _args, signal) => {
+      onStart(signal!);
+      await untilAborted(signal!);
+      throw new Error(String((signal!.reason as Error).message));
+    },
+  };
+}
+
+describe("external tool execution", () => {
+  test("surfaces onUpdate calls as tool_progress messages", async () => {
+    const indexer: AnyAgentTool = {
+      label: "Indexer",
+      name: "index_repo",
+      description: "Index files",
+      parameters: { type: "object", properties: {} },
+      execute: async (_id, _args, _signal, onUpdate) => {
+        onUpdate?.({ content: [{ type: "text", text: "1/2" }], details: { done: 1 } });
+        onUpdate?.({ content: [{ type: "text", text: "2/2" }] });
+        return { content: [{ type: "text", text: "indexed" }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "index_repo", toolCallId: "tc-idx" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [indexer] });
+    try {
+      const turn = await session.run("index");
+      const relevant = turn.messages.filter((m) =>
+        ["tool_call", "tool_progress", "tool_result"].includes(m.type)
+      );
+
+      expect(relevant.map((m) => m.type)).toEqual([
+        "tool_call",
+        "tool_progress",
+        "tool_progress",
+        "tool_result",
+      ]);
+      expect(relevant[1]).toEqual({
+        type: "tool_progress",
+        toolCallId: "tc-idx",
+        toolName: "index_repo",
+        content: [{ type: "text", text: "1/2" }],
+        details: { done: 1 },
+      } satisfies SDKMessage);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("session.abort() cancels in-flight tool calls", async () => {
+    let started!: () => void;
+    const toolStarted = new Promise<void>((resolve) => { started = resolve; });
+    let toolSignal: AbortSignal | undefined;
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "blocking", toolCallId: "tc-b" }]],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      tools: [blockingTool((signal) => { toolSignal = signal; started(); })],
+    });
+    try {
+      const running = session.run("go");
+      await toolStarted;
+      await session.abort();
+      const turn = await running;
+
+      expect(toolSignal?.aborted).toBe(true);
+      expect(turn.toolCalls[0]?.result?.content).toContain("Session interrupted");
+      expect(turn.result).toMatchObject({ success: false, error: "interrupted" });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("close() cancels in-flight tool calls", async () => {
+    let started!: () => void;
+    const toolStarted = new Promise<void>((resolve) => { started = resolve; });
+    let toolSignal: AbortSignal | undefined;
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "blocking" }]],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      tools: [blockingTool((signal) => { toolSignal = signal; started(); })],
+    });
+
+    const running = session.run("go");
+    await toolStarted;
+    session.close();
+    await running;
+
+    expect(toolSignal?.aborted).toBe(true);
+    expect((toolSignal?.reason as Error).message).toBe("Session closed");
+  });
+
+  test("rejects invalid arguments without running the tool", async () => {
+    let executions = 0;
+    const resize: AnyAgentTool = {
+      label: "Resize",
+      name: "resize",
+      description: "Resize an image",
+      parameters: {
+        type: "object",
+        properties: { width: { type: "integer", minimum: 1 }, path: { type: "string" } },
+        required: ["width", "path"],
+      },
+      execute: async () => {
+        executions++;
+        return { content: [{ type: "text", text: "ok" }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [
+        [{ type: "execute_external_tool", toolName: "resize", input: { width: 0 }, toolCallId: "tc-r" }],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [resize] });
+    try {
+      const turn = await session.run("shrink it");
+
+      expect(executions).toBe(0);
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        isError: true,
+        content:
+          "Invalid arguments for tool resize:\n" +
+          "- /path: is required\n" +
+          "- /width: must be >= 1\n" +
+          "Fix the arguments and call the tool again.",
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("answers tool calls whose schema patterns need care to compile", async () => {
+    const executed: unknown[] = [];
+    const dial: AnyAgentTool = {
+      label: "Dial",
+      name: "dial",
+      description: "Dial a number",
+      parameters: {
+        type: "object",
+        properties: {
+          phone: { type: "string", pattern: "^\\d{3}\\-\\d{4}$" },
+          ext: { type: "string", pattern: "([0-9" },
+        },
+      },
+      execute: async (_id, input) => {
+        executed.push(input);
+        return { content: [{ type: "text", text: "ringing" }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [
+        [
+          { type: "execute_external_tool", toolName: "dial", input: { phone: "555-1234" }, toolCallId: "tc-d1" },
+          { type: "execute_external_tool", toolName: "dial", input: { phone: "555-1234", ext: "12" }, toolCallId: "tc-d2" },
+        ],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [dial] });
+    try {
+      const turn = await session.run("call the office");
+
+      expect(executed).toEqual([{ phone: "555-1234" }]);
+      expect(turn.toolCalls[0]?.result).toMatchObject({ isError: false, content: "ringing" });
+      expect(turn.toolCalls[1]?.result).toMatchObject({
+        isError: true,
+        content:
+          "Invalid arguments for tool dial:\n" +
+          "- /ext: has an invalid schema pattern ([0-9\n" +
+          "Fix the arguments and call the tool again.",
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("passes coerced arguments to execute()", async () => {
+    let received: unknown;
+    const resize: AnyAgentTool = {
+      label: "Resize",
+      name: "resize",
+      description: "Resize an image",
+      parameters: {
+        type: "object",
+        properties: { width: { type: "integer" }, keepRatio: { type: "boolean", default: true } },
+      },
+      execute: async (_id, args) => {
+        received = args;
+        return { content: [{ type: "text", text: "ok" }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "resize", input: { width: "640" } }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [resize] });
+    try {
+      await session.run("shrink it");
+      expect(received).toEqual({ width: 640, keepRatio: true });
+    } finally {
+      session.close();
+    }
+  });
+});
+
+describe("changing tools mid-session", () => {
+  function namedTool(name: string, reply = name): AnyAgentTool {
+    return {
+      label: name,
+      name,
+      description: `The ${name} tool`,
+      parameters: { type: "object", properties: {} },
+      execute: async () => ({ content: [{ type: "text", text: reply }] }),
+    };
+  }
+
+  function controlWrites(cli: FakeCli, subtype: string) {
+    return cli.writes.filter(
+      (w) => w.type === "control_request" && (w.request as { subtype?: string }).subtype === subtype
+    );
+  }
+
+  test("registerTool makes a new tool callable on a live session", async () => {
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "unlock", toolCallId: "tc-u" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [namedTool("base")] });
+    try {
+      await session.initialize();
+      await session.registerTool(namedTool("unlock", "unlocked"));
+      const turn = await session.run("open the door");
+
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["base", "unlock"]);
+      expect(turn.toolCalls[0]?.result).toMatchObject({ content: "unlocked", isError: false });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("unregisterTool rejects later calls even though the CLI keeps the tool", async () => {
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "secret", toolCallId: "tc-s" }]],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      tools: [namedTool("base"), namedTool("secret")],
+    });
+    try {
+      await session.initialize();
+      expect(await session.unregisterTool("secret")).toBe(true);
+      expect(await session.unregisterTool("secret")).toBe(false);
+      const turn = await session.run("use the secret");
+
+      // Like the bundled CLI, FakeCli can't unregister tools, so removal is SDK-side only
+      expect(controlWrites(cli, "unregister_external_tools")).toHaveLength(1);
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["base", "secret"]);
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        content: "Unknown external tool: secret",
+        isError: true,
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("setTools replaces the set and asks the CLI to drop removed tools", async () => {
+    const cli = new FakeCli();
+    const session = createSession("agent-fake", {
+      transport: cli,
+      tools: [namedTool("a"), namedTool("b")],
+    });
+    try {
+      await session.initialize();
+      await session.setTools([namedTool("b"), namedTool("c")]);
+
+      expect(controlWrites(cli, "unregister_external_tools")[0]?.request).toEqual({
+        subtype: "unregister_external_tools",
+        tool_names: ["a"],
+      });
+      expect(cli.registeredTools.map((t) => t.name).sort()).toEqual(["a", "b", "c"]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("setTools leaves the current tools in place when a schema is invalid", async () => {
+    const cli = new FakeCli();
+    const session = createSession("agent-fake", { transport: cli, tools: [namedTool("a")] });
+    try {
+      await session.initialize();
+      const broken = { ...namedTool("b"), parameters: { type: "string" } };
+      await expect(session.setTools([broken])).rejects.toThrow("Invalid parameters schema for tool 'b'");
+
+      expect(controlWrites(cli, "register_external_tools")).toHaveLength(1);
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["a"]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("registerTool and setTools check timeout and concurrency limits", async () => {
+    const cli = new FakeCli();
+    const session = createSession("agent-fake", { transport: cli, tools: [namedTool("a")] });
+    try {
+      await session.initialize();
+      await expect(session.registerTool({ ...namedTool("b"), timeoutMs: 0 })).rejects.toThrow(
+        "Invalid timeoutMs for tool 'b'. Expected a positive integer."
+      );
+      await expect(session.setTools([namedTool("c"), { ...namedTool("d"), maxConcurrency: 1.5 }])).rejects.toThrow(
+        "Invalid maxConcurrency for tool 'd'"
+      );
+
+      expect(controlWrites(cli, "register_external_tools")).toHaveLength(1);
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["a"]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("tool changes before initialize are registered at startup", async () => {
+    const cli = new FakeCli();
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      await session.registerTool(namedTool("early"));
+      await session.initialize();
+
+      expect(controlWrites(cli, "register_external_tools")).toHaveLength(1);
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["early"]);
+    } finally {
+      session.close();
+    }
+  });
+});
+
+describe("tool middleware", () => {
+  const add: AnyAgentTool = {
+    label: "Add",
+    name: "add",
+    description: "Add two numbers",
+    parameters: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+    execute: async (_id, args) => {
+      const { a, b } = args as { a: number; b: number };
+      return { content: [{ type: "text", text: String(a + b) }] };
+    },
+  };
+
+  function addTurn(input: Record<string, unknown>) {
+    return new FakeCli({
+      agentId: "agent-mw",
+      turns: [[{ type: "execute_external_tool", toolName: "add", input, toolCallId: "tc-add" }]],
+    });
+  }
+
+  test("runs outermost-first with call and session context", async () => {
+    const events: string[] = [];
+    let seen: ToolExecutionContext | undefined;
+    const cli = addTurn({ a: 1, b: "2" });
+    const session = createSession("agent-mw", {
+      transport: cli,
+      tools: [add],
+      toolMiddleware: [
+        async (ctx, next) => {
+          seen = ctx;
+          events.push("outer:before");
+          const result = await next();
+          events.push("outer:after");
+          return result;
+        },
+        async (_ctx, next) => {
+          events.push("inner");
+          return next();
+        },
+      ],
+    });
+    try {
+      const turn = await session.run("add");
+
+      expect(events).toEqual(["outer:before", "inner", "outer:after"]);
+      expect(seen).toMatchObject({
+        toolName: "add",
+        toolCallId: "tc-add",
+        input: { a: 1, b: 2 },
+        agentId: "agent-mw",
+        sessionId: session.sessionId,
+        conversationId: session.conversationId,
+      });
+      expect(seen?.signal).toBeInstanceOf(AbortSignal);
+      expect(turn.toolCalls[0]?.result?.content).toBe("3");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("can rewrite input, short-circuit, and translate errors", async () => {
+    const doubled = createSession("agent-mw", {
+      transport: addTurn({ a: 1, b: 2 }),
+      tools: [add],
+      toolMiddleware: [
+        (ctx, next) => next({ ...ctx, input: { a: 10, b: 20 } }),
+      ],
+    });
+    const blocked = createSession("agent-mw", {
+      transport: addTurn({ a: 1, b: 2 }),
+      tools: [add],
+      toolMiddleware: [
+        async () => ({ content: [{ type: "text", text: "rate limited" }] }),
+      ],
+    });
+    const failing = createSession("agent-mw", {
+      transport: addTurn({ a: 1, b: 2 }),
+      tools: [add],
+      toolMiddleware: [
+        async () => {
+          throw new Error("quota exceeded");
+        },
+      ],
+    });
+    try {
+      expect((await doubled.run("add")).toolCalls[0]?.result?.content).toBe("30");
+      expect((await blocked.run("add")).toolCalls[0]?.result?.content).toBe("rate limited");
+      expect((await failing.run("add")).toolCalls[0]?.result).toMatchObject({
+        content: "Tool execution error: quota exceeded",
+        isError: true,
+      });
+    } finally {
+      doubled.close();
+      blocked.close();
+      failing.close();
+    }
+  });
+});
+
+
+describe("tool timeouts and concurrency", () => {
+  test("times out a hung tool with an error result and aborts its signal", async () => {
+    let toolSignal: AbortSignal | undefined;
+    const hung: AnyAgentTool = {
+      label: "Hung",
+      name: "hung",
+      description: "Never returns and ignores its signal",
+      parameters: { type: "object", properties: {} },
+      timeoutMs: 20,
+      execute: (_id, _args, signal) => {
+        toolSignal = signal;
+        return new Promise(() => {});
+      },
+    };
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "hung", toolCallId: "tc-h" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [hung] });
+    try {
+      const turn = await session.run("go");
+
+      expect(toolSignal?.aborted).toBe(true);
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        content: "Tool execution error: hung timed out after 20ms",
+        isError: true,
+      });
+      expect(turn.result.success).toBe(true);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("applies the session-wide toolTimeoutMs default", async () => {
+    const slow: AnyAgentTool = {
+      label: "Slow",
+      name: "slow",
+      description: "Slow",
+      parameters: { type: "object", properties: {} },
+      execute: () => new Promise(() => {}),
+    };
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "slow" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [slow], toolTimeoutMs: 15 });
+    try {
+      const turn = await session.run("go");
+      expect(turn.toolCalls[0]?.result?.content).toBe("Tool execution error: slow timed out after 15ms");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("queues calls beyond maxConcurrency", async () => {
+    let active = 0;
+    let peak = 0;
+    const worker: AnyAgentTool = {
+      label: "Worker",
+      name: "worker",
+      description: "Does work",
+      parameters: { type: "object", properties: { n: { type: "integer" } } },
+      maxConcurrency: 2,
+      execute: async (_id, args) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return { content: [{ type: "text", text: `done ${(args as { n: number }).n}` }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          const results = await Promise.all(
+            [1, 2, 3, 4, 5].map((n) => ctx.executeExternalTool("worker", { n }))
+          );
+          ctx.assistant(results.map((r) => r.content[0]?.text).join(","));
+        },
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [worker] });
+    try {
+      const turn = await session.run("work");
+
+      expect(peak).toBe(2);
+      expect(turn.text).toBe("done 1,done 2,done 3,done 4,done 5");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("a timed-out call keeps its concurrency slot until execute() settles", async () => {
+    const started: number[] = [];
+    let finishFirst: (() => void) | undefined;
+    const worker: AnyAgentTool = {
+      label: "Worker",
+      name: "worker",
+      description: "Does work",
+      parameters: { type: "object", properties: { n: { type: "integer" } } },
+      maxConcurrency: 1,
+      timeoutMs: 20,
+      execute: async (_id, args) => {
+        const n = (args as { n: number }).n;
+        started.push(n);
+        // The first call ignores its abort signal and outlives its timeout
+        if (n === 1) await new Promise<void>((resolve) => { finishFirst = resolve; });
+        return { content: [{ type: "text", text: `done ${n}` }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          const first = await ctx.executeExternalTool("worker", { n: 1 });
+          const second = ctx.executeExternalTool("worker", { n: 2 });
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          ctx.assistant(`${first.content[0]?.text} | started ${started.join(",")}`);
+          finishFirst?.();
+          ctx.assistant(` | ${(await second).content[0]?.text}`);
+        },
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [worker] });
+    try {
+      const turn = await session.run("work");
+
+      expect(turn.text).toBe("Tool execution error: worker timed out after 20ms | started 1 | done 2");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("rejects invalid limits at session creation", () => {
+    expect(() =>
+      createSession("agent-fake", { transport: new FakeCli(), toolMaxConcurrency: 0 })
+    ).toThrow("Invalid toolMaxConcurrency");
+    expect(() =>
+      createSession("agent-fake", {
+        transport: new FakeCli(),
+        tools: [{
+          label: "T",
+          name: "t",
+          description: "T",
+          parameters: {},
+          timeoutMs: -1,
+          execute: async () => ({ content: [] }),
+        }],
+      })
+    ).toThrow("Invalid timeoutMs for tool 't'");
+  });
+});
+
+describe("external tool result details", () => {
+  test("surfaces details on the tool_result message and honours isError", async () => {
+    const chart: AnyAgentTool = {
+      label: "Chart",
+      name: "chart",
+      description: "Render a chart",
+      parameters: { type: "object", properties: { fail: { type: "boolean" } } },
+      execute: async (_id, args) =>
+        (args as { fail?: boolean }).fail
+          ? errorResult("no data", { rows: 0 })
+          : toolResult<{ rows: number }>().text("chart:").image("AAAA", "image/png").details({ rows: 3 }).build(),
+    };
+    const cli = new FakeCli({
+      turns: [
+        [
+          { type: "execute_external_tool", toolName: "chart", input: {}, toolCallId: "tc-ok" },
+          { type: "execute_external_tool", toolName: "chart", input: { fail: true }, toolCallId: "tc-err" },
+        ],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [chart] });
+    try {
+      const turn = await session.run("chart it");
+
+      expect(turn.toolCalls[0]?.result).toMatchObject({ isError: false, details: { rows: 3 } });
+      expect(turn.toolCalls[1]?.result).toMatchObject({
+        isError: true,
+        content: "no data",
+        details: { rows: 0 },
+      });
+    } finally {
+      session.close();
+    }
+  });
+});
+
+describe("tool parameter errors", () => {
+  test("reports ToolParamError as invalid arguments", async () => {
+    const page: AnyAgentTool = {
+      label: "Page",
+      name: "page",
+      description: "Fetch a page",
+      parameters: { type: "object", properties: { n: { type: "integer" } } },
+      execute: async (_id, args) => {
+        const n = readIntegerParam(args as Record<string, unknown>, "n", { required: true, max: 10 });
+        return { content: [{ type: "text", text: `page ${n}` }] };
+      },
+    };
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "page", input: { n: 11 }, toolCallId: "tc-p" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools: [page] });
+    try {
+      const turn = await session.run("page 11");
+
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        isError: true,
+        content: "Invalid arguments for tool page:\n- n must be <= 10\nFix the arguments and call the tool again.",
+      });
+    } finally {
+      session.close();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tiny stdio MCP server used by mcp.test.ts.
+ * Tools are split across two tools/list pages to exercise pagination.
+ */
+import { createInterface } from "node:readline";
+
+const PIXEL =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const pages = [
+  [
+    {
+      name: "echo",
+      description: "Echo text back",
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+    },
+    { name: "pixel", title: "Pixel", description: "Return a 1x1 PNG", inputSchema: { type: "object" } },
+  ],
+  [
+    { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+    { name: "pid", description: "Server process id", inputSchema: { type: "object" } },
+    { name: "hang", description: "Never answers", inputSchema: { type: "object" } },
+    { name: "cancelled", description: "Request ids cancelled so far", inputSchema: { type: "object" } },
+  ],
+];
+
+const cancelled: unknown[] = [];
+
+function reply(id: unknown, result: unknown) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n");
+}
+
+function callTool(name: string, args: Record<string, unknown>) {
+  switch (name) {
+    case "echo":
+      return { content: [{ type: "text", text: `${process.env.ECHO_PREFIX ?? ""}${String(args.text)}` }] };
+    case "pixel":
+      return {
+        content: [
+          { type: "text", text: "one pixel" },
+          { type: "image", data: PIXEL, mimeType: "image/png" },
+        ],
+      };
+    case "fail":
+      return {
+        content: [
+          { type: "text", text: "upstream exploded" },
+          { type: "image", data: PIXEL, mimeType: "image/png" },
+        ],
+        isError: true,
+      };
+    case "pid":
+      return { content: [{ type: "text", text: String(process.pid) }], structuredContent: { pid: process.pid } };
+    case "cancelled":
+      return { content: [{ type: "text", text: JSON.stringify(cancelled) }], structuredContent: { cancelled } };
+    default:
+      return { content: [{ type: "text", text: `unknown tool ${name}` }], isError: true };
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line) as { id?: unknown; method: string; params?: any };
+  if (msg.method === "notifications/cancelled") {
+    cancelled.push(msg.params?.requestId);
+  }
+  if (msg.id === undefined) return;
+  switch (msg.method) {
+    case "initialize":
+      reply(msg.id, {
+        protocolVersion: msg.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "fixture", version: "0.0.0" },
+      });
+      break;
+    case "tools/list": {
+      const page = msg.params?.cursor === "2" ? 1 : 0;
+      reply(msg.id, { tools: pages[page], nextCursor: page === 0 ? "2" : undefined });
+      break;
+    }
+    case "tools/call":
+      if (msg.params.name !== "hang") reply(msg.id, callTool(msg.params.name, msg.params.arguments ?? {}));
+      break;
+    default:
+      process.stdout.write(
+        JSON.stringify({ jsonrpc: "2.0", id: msg.id, error: { code: -32601, message: "nope" } }) + "\n",
+      );
+  }
+});
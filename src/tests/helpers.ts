@@ -0,0 +1,11 @@
+/**
+ * Shared test helpers
+ */
+
+/** Resolve once the signal aborts (immediately if it already has) */
+export function untilAborted(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) resolve();
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+}
@@ -0,0 +1,257 @@
+import { describe, expect, test } from "bun:test";
+import { createSession } from "../index.js";
+import { toToolParametersSchema, validateToolArguments } from "../json-schema.js";
+import { FakeCli } from "../testing.js";
+import type { AnyAgentTool } from "../types.js";
+
+const Kind = Symbol.for("TypeBox.Kind");
+const Optional = Symbol.for("TypeBox.Optional");
+
+describe("toToolParametersSchema", () => {
+  test("preserves every keyword and drops TypeBox symbols", () => {
+    const schema = {
+      [Kind]: "Object",
+      type: "object",
+      description: "Search options",
+      properties: {
+        query: { [Kind]: "String", type: "string", minLength: 1 },
+        mode: { [Kind]: "Union", anyOf: [{ const: "fast" }, { const: "deep" }], default: "fast" },
+        tags: { [Kind]: "Array", type: "array", items: { type: "string", format: "uuid" } },
+        level: { [Kind]: "Number", [Optional]: "Optional", type: "integer", enum: [1, 2, 3] },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    };
+
+    expect(toToolParametersSchema(schema, "search")).toEqual({
+      type: "object",
+      description: "Search options",
+      properties: {
+        query: { type: "string", minLength: 1 },
+        mode: { anyOf: [{ const: "fast" }, { const: "deep" }], default: "fast" },
+        tags: { type: "array", items: { type: "string", format: "uuid" } },
+        level: { type: "integer", enum: [1, 2, 3] },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    });
+  });
+
+  test("inlines $defs and TypeBox $id references", () => {
+    const addressBody = { type: "object", properties: { city: { type: "string" } } };
+    const address = { $id: "Address", ...addressBody };
+    const schema = {
+      type: "object",
+      $defs: { point: { type: "array", items: { type: "number" }, minItems: 2 } },
+      properties: {
+        home: address,
+        work: { [Kind]: "Ref", $ref: "Address", description: "Office" },
+        at: { $ref: "#/$defs/point" },
+      },
+    };
+
+    const converted = toToolParametersSchema(schema, "geo");
+    expect(converted.$defs).toBeUndefined();
+    expect(converted.properties).toEqual({
+      home: addressBody,
+      work: { ...addressBody, description: "Office" },
+      at: { type: "array", items: { type: "number" }, minItems: 2 },
+    });
+  });
+
+  test("keeps recursive references resolvable", () => {
+    const schema = {
+      type: "object",
+      $defs: {
+        node: {
+          type: "object",
+          properties: { children: { type: "array", items: { $ref: "#/$defs/node" } } },
+        },
+      },
+      properties: { tree: { $ref: "#/$defs/node" } },
+    };
+
+    const converted = toToolParametersSchema(schema, "tree");
+    expect(converted.$defs).toEqual(schema.$defs);
+    expect(converted.properties).toEqual({
+      tree: {
+        type: "object",
+        properties: { children: { type: "array", items: { $ref: "#/$defs/node" } } },
+      },
+    });
+  });
+
+  test("rewrites recursive TypeBox $id references to local refs", () => {
+    // Shape of Type.Recursive((This) => Type.Object({ name, children: Type.Array(This) }))
+    const node = {
+      $id: "T0",
+      [Kind]: "Object",
+      type: "object",
+      properties: {
+        name: { [Kind]: "String", type: "string" },
+        children: { [Kind]: "Array", type: "array", items: { [Kind]: "This", $ref: "T0" } },
+      },
+      required: ["name", "children"],
+    };
+    const nodeBody = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        children: { type: "array", items: { $ref: "#/$defs/T0" } },
+      },
+      required: ["name", "children"],
+    };
+
+    const nested = toToolParametersSchema({ type: "object", properties: { tree: node } }, "tree");
+    expect(nested).toEqual({
+      type: "object",
+      properties: { tree: nodeBody },
+      $defs: { T0: nodeBody },
+    });
+    expect(JSON.stringify(nested)).not.toContain('"$id"');
+
+    const atRoot = toToolParametersSchema(node, "tree");
+    expect(atRoot).toEqual({
+      ...nodeBody,
+      properties: { ...nodeBody.properties, children: { type: "array", items: { $ref: "#" } } },
+    });
+  });
+
+  test("rejects schemas the CLI cannot accept", () => {
+    expect(() => toToolParametersSchema({ type: "string" }, "t")).toThrow(
+      `Invalid parameters schema for tool 't': top-level type must be "object" (got "string")`
+    );
+    expect(() =>
+      toToolParametersSchema(
+        { type: "object", properties: { cb: { [Kind]: "Function", type: "Function" } } },
+        "t"
+      )
+    ).toThrow("/properties/cb uses TypeBox Function");
+    expect(() =>
+      toToolParametersSchema({ type: "object", properties: { a: { $ref: "#/$defs/missing" } } }, "t")
+    ).toThrow("references unknown schema '#/$defs/missing'");
+  });
+
+  test("defaults missing parameters to an empty object schema", () => {
+    expect(toToolParametersSchema(undefined, "t")).toEqual({ type: "object", properties: {} });
+    expect(toToolParametersSchema({ properties: {} }, "t")).toEqual({ type: "object", properties: {} });
+    expect(toToolParametersSchema({}, "t")).toEqual({ type: "object" });
+    expect(() => toToolParametersSchema({ anyOf: [{ type: "string" }] }, "t")).toThrow(
+      "top-level type must be"
+    );
+  });
+});
+
+describe("validateToolArguments", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      count: { type: "integer", minimum: 1 },
+      verbose: { type: "boolean", default: false },
+      label: { type: "string" },
+      ids: { type: "array", items: { type: "number" } },
+    },
+    required: ["count"],
+  };
+
+  test("coerces safe scalar conversions and fills defaults", () => {
+    expect(validateToolArguments(schema, { count: " 3 ", label: 42, ids: ["1.5", 2] })).toEqual({
+      ok: true,
+      value: { count: 3, label: "42", ids: [1.5, 2], verbose: false },
+    });
+    expect(validateToolArguments(schema, { count: 1, verbose: "true" })).toMatchObject({
+      ok: true,
+      value: { verbose: true },
+    });
+  });
+
+  test("does not coerce lossy or ambiguous values", () => {
+    const result = validateToolArguments(schema, { count: "2.5", verbose: "yes" });
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: "/count", message: "expected integer, got string" },
+        { path: "/verbose", message: "expected boolean, got string" },
+      ],
+    });
+  });
+
+  test("compiles patterns that are only valid without the u flag", () => {
+    const phone = { type: "object", properties: { phone: { type: "string", pattern: "^\\d{3}\\-\\d{4}$" } } };
+    expect(validateToolArguments(phone, { phone: "555-1234" })).toEqual({ ok: true, value: { phone: "555-1234" } });
+    expect(validateToolArguments(phone, { phone: "5551234" })).toMatchObject({
+      ok: false,
+      issues: [{ path: "/phone", message: "must match pattern ^\\d{3}\\-\\d{4}$" }],
+    });
+
+    const broken = { type: "object", properties: { id: { type: "string", pattern: "([a-z" } } };
+    expect(validateToolArguments(broken, { id: "abc" })).toEqual({
+      ok: false,
+      issues: [{ path: "/id", message: "has an invalid schema pattern ([a-z" }],
+    });
+  });
+
+  test("validates nested input against a converted recursive TypeBox schema", () => {
+    const node = {
+      $id: "T0",
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        children: { type: "array", items: { $ref: "T0" } },
+      },
+      required: ["name"],
+    };
+    const tree = { name: "a", children: [{ name: "b", children: [{ name: "c", children: [] }] }] };
+
+    const atRoot = toToolParametersSchema(node, "tree");
+    expect(validateToolArguments(atRoot, tree)).toEqual({ ok: true, value: tree });
+    const nested = toToolParametersSchema({ type: "object", properties: { tree: node } }, "tree");
+    expect(validateToolArguments(nested, { tree })).toEqual({ ok: true, value: { tree } });
+
+    // Unconverted `$id` references resolve too
+    expect(validateToolArguments(node, { name: "a", children: [{ name: "b", children: [{ children: [] }] }] })).toEqual({
+      ok: false,
+      issues: [{ path: "/children/0/children/0/name", message: "is required" }],
+    });
+  });
+
+  test("treats missing input as an empty object", () => {
+    expect(validateToolArguments(schema, undefined)).toEqual({
+      ok: false,
+      issues: [{ path: "/count", message: "is required" }],
+    });
+  });
+});
+
+describe("external tool registration", () => {
+  function tool(parameters: unknown): AnyAgentTool {
+    return {
+      label: "Pick",
+      name: "pick",
+      description: "Pick a color",
+      parameters,
+      execute: async () => ({ content: [] }),
+    };
+  }
+
+  test("registers the full schema with the CLI", async () => {
+    const cli = new FakeCli();
+    const parameters = {
+      type: "object",
+      properties: { color: { type: "string", enum: ["red", "blue"], default: "red" } },
+    };
+    const session = createSession("agent-fake", { transport: cli, tools: [tool(parameters)] });
+    try {
+      await session.initialize();
+      expect(cli.registeredTools[0]?.parameters).toEqual(parameters);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("fails at session construction for unsupported schemas", () => {
+    expect(() =>
+      createSession("agent-fake", { transport: new FakeCli(), tools: [tool({ type: "array" })] })
+    ).toThrow("Invalid parameters schema for tool 'pick'");
+  });
+});
@@ -1,10 +1,17 @@
 import { afterAll, describe, expect, test } from "bun:test";
-import { createSession, resumeSession, type Session } from "../index.js";
+import {
+  createSession,
+  resumeSession,
+  RecordingTransport,
+  SubprocessTransport,
+  type Session,
+} from "../index.js";
 import type {
   SDKMessage,
   SDKResultMessage,
   SDKStreamEventMessage,
   ListMessagesResult,
+  TransportFactory,
 } from "../types.js";
 import { mkdir, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
@@ -186,17 +193,36 @@ function summarizeMessage(message: SDKMessage): Record<string, unknown> {
   return base;
 }
 
+function fixtureDir(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), "fixtures", "live");
+}
+
 async function writeFixture(name: string, body: unknown): Promise<void> {
   if (!RECORD_FIXTURES) return;
 
-  const thisFile = fileURLToPath(import.meta.url);
-  const fixtureDir = join(dirname(thisFile), "fixtures", "live");
-  await mkdir(fixtureDir, { recursive: true });
-  const target = join(fixtureDir, `${name}.json`);
+  const dir = fixtureDir();
+  await mkdir(dir, { recursive: true });
+  const target = join(dir, `${name}.json`);
   await writeFile(target, JSON.stringify(sanitizeValue(body), null, 2), "utf8");
   log(`wrote fixture ${target}`);
 }
 
+/**
+ * When recording fixtures, wrap the CLI subprocess so the full wire traffic
+ * is also captured as a replayable JSONL cassette.
+ */
+function recordingTransport(name: string): TransportFactory | undefined {
+  if (!RECORD_FIXTURES) return undefined;
+
+  const path = join(fixtureDir(), `${name}.cassette.jsonl`);
+  log(`recording cassette ${path}`);
+  return (opts) =>
+    new RecordingTransport(new SubprocessTransport(opts), {
+      path,
+      sanitize: (message) => sanitizeValue(message) as Record<string, unknown>,
+    });
+}
+
 async function collectTurn(session: Session, prompt: string): Promise<SDKMessage[]> {
   await session.send(prompt);
 
@@ -309,6 +335,7 @@ describeLive("live integration: letta-code-sdk", () => {
       const session = createSession(agentId, {
         permissionMode: "bypassPermissions",
         includePartialMessages: true,
+        transport: recordingTransport("send_stream_basic"),
       });
       openedSessions.push(session);
 
@@ -503,6 +530,7 @@ describeLive("live integration: letta-code-sdk", () => {
       const session = createSession(agentId, {
         permissionMode: "bypassPermissions",
         includePartialMessages: true,
+        transport: recordingTransport("tool_lifecycle"),
       });
       openedSessions.push(session);
 
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { createSession, mcpTools } from "../index.js";
+import { FakeCli } from "../testing.js";
+
+const SERVER = join(import.meta.dir, "fixtures", "mcp", "server.ts");
+
+function fixtureServer(options: { prefix?: string; include?: string[] } = {}) {
+  return mcpTools({
+    command: process.execPath,
+    args: [SERVER],
+    env: { ECHO_PREFIX: "> " },
+    ...options,
+  });
+}
+
+async function waitForExit(pid: number): Promise<boolean> {
+  for (let i = 0; i < 100; i++) {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return false;
+}
+
+describe("mcpTools", () => {
+  test("lists every page of tools and converts their definitions", async () => {
+    const tools = await fixtureServer({ prefix: "fx_" });
+    try {
+      expect(tools.map((t) => t.name)).toEqual([
+        "fx_echo",
+        "fx_pixel",
+        "fx_fail",
+        "fx_pid",
+        "fx_hang",
+        "fx_cancelled",
+      ]);
+      expect(tools[0]).toMatchObject({
+        label: "echo",
+        description: "Echo text back",
+        parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+      });
+      expect(tools[1]?.label).toBe("Pixel");
+    } finally {
+      for (const tool of tools) await tool.dispose?.();
+    }
+  });
+
+  test("proxies calls through a session, including images and errors", async () => {
+    const tools = await fixtureServer({ include: ["echo", "pixel", "fail"] });
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          const echo = await ctx.executeExternalTool("echo", { text: "hi" });
+          const pixel = await ctx.executeExternalTool("pixel");
+          const fail = await ctx.executeExternalTool("fail");
+          ctx.assistant(JSON.stringify({ echo, pixel, fail }));
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools });
+    try {
+      const turn = await session.run("use the tools");
+      const { echo, pixel, fail } = JSON.parse(turn.text);
+
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["echo", "pixel", "fail"]);
+      expect(echo).toEqual({ content: [{ type: "text", text: "> hi" }], isError: false });
+      expect(pixel.isError).toBe(false);
+      expect(pixel.content[1]).toMatchObject({ type: "image", mimeType: "image/png" });
+      expect(fail).toMatchObject({
+        isError: true,
+        content: [
+          { type: "text", text: "upstream exploded" },
+          { type: "image", mimeType: "image/png" },
+        ],
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("cancels the server-side request when a call is aborted", async () => {
+    const tools = await fixtureServer({ include: ["hang", "cancelled"] });
+    const [hang, cancelled] = tools;
+    try {
+      const controller = new AbortController();
+      const call = hang!.execute("tc-1", {}, controller.signal);
+      controller.abort(new Error("stop"));
+      await expect(call).rejects.toThrow("stop");
+
+      const { details } = await cancelled!.execute("tc-2", {});
+      expect((details as { cancelled: unknown[] }).cancelled).toHaveLength(1);
+    } finally {
+      for (const tool of tools) await tool.dispose?.();
+    }
+  });
+
+  test("shuts the server down when the session closes", async () => {
+    const tools = await fixtureServer({ include: ["pid"] });
+    const pidTool = tools[0]!;
+    const { details } = await pidTool.execute("tc-1", {});
+    const pid = (details as { pid: number }).pid;
+
+    const session = createSession("agent-fake", { transport: new FakeCli(), tools });
+    session.close();
+
+    expect(await waitForExit(pid)).toBe(true);
+    await expect(pidTool.execute("tc-2", {})).rejects.toThrow("MCP server");
+  });
+
+  test("shuts the server down when a session given only some of its tools closes", async () => {
+    const tools = await fixtureServer();
+    const pidTool = tools.find((t) => t.name === "pid")!;
+    const { details } = await pidTool.execute("tc-1", {});
+    const pid = (details as { pid: number }).pid;
+
+    const session = createSession("agent-fake", { transport: new FakeCli(), tools: [pidTool] });
+    session.close();
+
+    expect(await waitForExit(pid)).toBe(true);
+  });
+
+  test("rejects when the server can't be started", async () => {
+    await expect(mcpTools({ command: "definitely-not-an-mcp-server-binary" })).rejects.toThrow(
+      "MCP server failed"
+    );
+  });
+});
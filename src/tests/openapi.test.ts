@@ -0,0 +1,252 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createSession, toolsFromOpenAPI } from "../index.js";
+import { FakeCli } from "../testing.js";
+
+const spec = {
+  openapi: "3.0.3",
+  info: { title: "Pets", version: "1.0.0" },
+  servers: [{ url: "/v1" }],
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          tag: { type: "string", nullable: true },
+          parent: { $ref: "#/components/schemas/Pet" },
+        },
+        required: ["name"],
+      },
+    },
+    parameters: {
+      PetId: { name: "petId", in: "path", required: true, schema: { type: "integer" } },
+    },
+  },
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        summary: "List pets",
+        tags: ["pets"],
+        parameters: [
+          { name: "limit", in: "query", description: "Max results", schema: { type: "integer", maximum: 100 } },
+          { name: "tags", in: "query", schema: { type: "array", items: { type: "string" } } },
+        ],
+      },
+      post: {
+        operationId: "createPet",
+        summary: "Create a pet",
+        tags: ["pets"],
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+        },
+      },
+    },
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: { operationId: "getPet", summary: "Get a pet", tags: ["pets"] },
+      delete: { summary: "Delete a pet", tags: ["admin"] },
+    },
+  },
+};
+
+interface Recorded {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+const requests: Recorded[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      if (req.url?.startsWith("/v1/pets/404")) {
+        res.writeHead(404, { "content-type": "application/json" }).end('{"error":"no such pet"}');
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: true, method: req.method, body: body ? JSON.parse(body) : null }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe("toolsFromOpenAPI", () => {
+  test("creates one tool per operation with merged parameter schemas", () => {
+    const tools = toolsFromOpenAPI(spec, { baseUrl });
+
+    expect(tools.map((t) => t.name)).toEqual(["listPets", "createPet", "getPet", "delete_pets_petId"]);
+    expect(tools[0]).toMatchObject({
+      label: "List pets",
+      description: "List pets",
+      parameters: {
+        type: "object",
+        properties: {
+          limit: { type: "integer", maximum: 100, description: "Max results" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      },
+    });
+    expect(tools[1]?.parameters).toEqual({
+      type: "object",
+      properties: { body: { $ref: "#/$defs/Pet" } },
+      required: ["body"],
+      $defs: {
+        Pet: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            tag: { type: ["string", "null"] },
+            parent: { $ref: "#/$defs/Pet" },
+          },
+          required: ["name"],
+        },
+      },
+    });
+    expect(tools[2]?.parameters).toEqual({
+      type: "object",
+      properties: { petId: { type: "integer" } },
+      required: ["petId"],
+    });
+  });
+
+  test("filters operations with include", () => {
+    expect(toolsFromOpenAPI(spec, { baseUrl, include: ["getPet"] }).map((t) => t.name)).toEqual(["getPet"]);
+    expect(
+      toolsFromOpenAPI(spec, { baseUrl, include: (op) => op.tags.includes("admin") }).map((t) => t.name)
+    ).toEqual(["delete_pets_petId"]);
+  });
+
+  test("keeps nullable on refs, combinators and untyped schemas", () => {
+    const nullableSpec = {
+      openapi: "3.0.3",
+      components: { schemas: { Owner: { type: "object", properties: { name: { type: "string" } } } } },
+      paths: {
+        "/pets": {
+          post: {
+            operationId: "createPet",
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      owner: { $ref: "#/components/schemas/Owner", nullable: true },
+                      size: { type: "string", enum: ["s", "l"], nullable: true },
+                      mixed: { allOf: [{ $ref: "#/components/schemas/Owner" }], nullable: true },
+                      anything: { nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const [tool] = toolsFromOpenAPI(nullableSpec, { baseUrl });
+    expect((tool?.parameters as { properties: { body: unknown } }).properties.body).toEqual({
+      type: "object",
+      properties: {
+        owner: { anyOf: [{ $ref: "#/$defs/Owner" }, { type: "null" }] },
+        size: { type: ["string", "null"], enum: ["s", "l", null] },
+        mixed: { anyOf: [{ allOf: [{ $ref: "#/$defs/Owner" }] }, { type: "null" }] },
+        anything: { anyOf: [{}, { type: "null" }] },
+      },
+    });
+  });
+
+  test("rejects operations whose tool names collide", () => {
+    const colliding = {
+      openapi: "3.0.3",
+      paths: {
+        "/users/{id}": { get: { operationId: "get user" } },
+        "/user/{id}": { get: { operationId: "get_user" }, delete: {} },
+        "/user/{id}/": { delete: {} },
+      },
+    };
+
+    expect(() => toolsFromOpenAPI(colliding, { baseUrl, include: (op) => op.method === "GET" })).toThrow(
+      "OpenAPI operations GET /users/{id} and GET /user/{id} both map to tool name 'get_user'"
+    );
+    expect(() => toolsFromOpenAPI(colliding, { baseUrl, include: (op) => op.method === "DELETE" })).toThrow(
+      "OpenAPI operations DELETE /user/{id} and DELETE /user/{id}/ both map to tool name 'delete_user_id'"
+    );
+    expect(
+      toolsFromOpenAPI(colliding, { baseUrl, include: (op) => op.path === "/user/{id}" }).map((t) => t.name)
+    ).toEqual(["get_user", "delete_user_id"]);
+  });
+
+  test("performs requests with path, query, body and auth", async () => {
+    const tools = toolsFromOpenAPI(spec, { baseUrl, auth: { type: "bearer", token: "s3cret" } });
+    const byName = new Map(tools.map((t) => [t.name, t]));
+    requests.length = 0;
+
+    const list = await byName.get("listPets")!.execute("tc-1", { limit: 5, tags: ["a", "b"] });
+    const created = await byName.get("createPet")!.execute("tc-2", { body: { name: "Rex" } });
+    await byName.get("getPet")!.execute("tc-3", { petId: 7 });
+
+    expect(list.details).toEqual({ ok: true, method: "GET", body: null });
+    expect(created.details).toEqual({ ok: true, method: "POST", body: { name: "Rex" } });
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      "GET /v1/pets?limit=5&tags=a&tags=b",
+      "POST /v1/pets",
+      "GET /v1/pets/7",
+    ]);
+    expect(requests[0]?.headers.authorization).toBe("Bearer s3cret");
+    expect(requests[1]?.headers["content-type"]).toBe("application/json");
+  });
+
+  test("supports API keys in the query string", async () => {
+    const [getPet] = toolsFromOpenAPI(spec, {
+      baseUrl,
+      include: ["getPet"],
+      auth: { type: "apiKey", name: "api_key", value: "k1", in: "query" },
+    });
+    requests.length = 0;
+
+    await getPet!.execute("tc-1", { petId: 1 });
+
+    expect(requests[0]?.url).toBe("/v1/pets/1?api_key=k1");
+    expect(requests[0]?.headers.authorization).toBeUndefined();
+  });
+
+  test("reports HTTP errors to the model through the session", async () => {
+    const tools = toolsFromOpenAPI(spec, { baseUrl, include: ["getPet"] });
+    const cli = new FakeCli({
+      turns: [[{ type: "execute_external_tool", toolName: "getPet", input: { petId: "404" }, toolCallId: "tc-1" }]],
+    });
+    const session = createSession("agent-fake", { transport: cli, tools });
+    try {
+      const turn = await session.run("find pet 404");
+
+      expect(turn.toolCalls[0]?.result).toMatchObject({
+        isError: true,
+        content: 'Tool execution error: GET /pets/{petId} failed with 404 Not Found: {"error":"no such pet"}',
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("requires an absolute server URL", () => {
+    expect(() => toolsFromOpenAPI(spec)).toThrow("Pass 'baseUrl' explicitly");
+    expect(() => toolsFromOpenAPI({ swagger: "2.0" })).toThrow("Expected an OpenAPI 3.x object");
+  });
+});
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createJsonlAuditSink, createSession } from "../index.js";
+import { Session } from "../session.js";
+import { FakeCli, type FakeTurn } from "../testing.js";
+import type { PermissionAuditRecord } from "../types.js";
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("permission audit", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "sdk-permission-audit-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("records the mechanism behind every decision", async () => {
+    const records: PermissionAuditRecord[] = [];
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          await ctx.requestPermission("Bash", { command: "npm test" }, { toolCallId: "tc-1" });
+          await ctx.requestPermission("Bash", { command: "npm test -- -u" }, { toolCallId: "tc-2" });
+          await ctx.requestPermission("Write", { file_path: "a.ts" }, { toolCallId: "tc-3" });
+          await ctx.requestPermission("Read", { file_path: "a.ts" }, { toolCallId: "tc-4" });
+          await ctx.requestPermission("EnterPlanMode", {}, { toolCallId: "tc-5" });
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      canUseTool: async (toolName, input) => {
+        if (toolName === "Read") throw new Error("policy service unavailable");
+        if (toolName === "Write") return { behavior: "deny", message: "read-only" };
+        return {
+          behavior: "allow",
+          updatedInput: input.command === "npm test" ? { command: "npm test --silent" } : undefined,
+          updatedPermissions: [
+            { type: "addRules", rules: [{ toolName: "Bash", ruleContent: "npm test:*" }], behavior: "allow", destination: "session" },
+          ],
+        };
+      },
+      onPermissionDecision: (record) => {
+        records.push(record);
+      },
+    });
+    try {
+      await session.run("go");
+      await waitFor(() => records.length === 5);
+
+      expect(records.map((r) => [r.toolCallId, r.behavior, r.mechanism])).toEqual([
+        ["tc-1", "allow", "callback"],
+        ["tc-2", "allow", "session-rule"],
+        ["tc-3", "deny", "callback"],
+        ["tc-4", "deny", "callback"],
+        ["tc-5", "allow", "callback"],
+      ]);
+      expect(records[0]).toMatchObject({
+        toolName: "Bash",
+        input: { command: "npm test" },
+        updatedInput: { command: "npm test --silent" },
+        updatedPermissions: [{ type: "addRules", behavior: "allow" }],
+        permissionMode: "default",
+        turn: 1,
+        agentId: session.agentId,
+        conversationId: session.conversationId,
+        sessionId: session.sessionId,
+      });
+      expect(records[2]).toMatchObject({ message: "read-only", interrupt: false });
+      expect(records[3]).toMatchObject({ error: "policy service unavailable" });
+      for (const record of records) {
+        expect(record.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(Number.isNaN(Date.parse(record.timestamp))).toBe(false);
+      }
+    } finally {
+      session.close();
+    }
+  });
+
+  test("covers bypass, auto-allow and default deny", async () => {
+    const mechanisms: string[] = [];
+    const turn: FakeTurn = async (ctx) => {
+      await ctx.requestPermission("Bash", { command: "ls" });
+      await ctx.requestPermission("EnterPlanMode", {});
+      ctx.result();
+    };
+    for (const [index, permissionMode] of (["bypassPermissions", "default"] as const).entries()) {
+      const session = createSession("agent-fake", {
+        transport: new FakeCli({ turns: [turn] }),
+        permissionMode,
+        onPermissionDecision: (record) => {
+          mechanisms.push(record.mechanism);
+        },
+      });
+      try {
+        await session.run("go");
+        await waitFor(() => mechanisms.length === (index + 1) * 2);
+      } finally {
+        session.close();
+      }
+    }
+
+    expect(mechanisms).toEqual(["bypass", "bypass", "default-deny", "auto-allow"]);
+  });
+
+  test("records decisions whose response can't be written", async () => {
+    const records: PermissionAuditRecord[] = [];
+    const session = new Session({
+      agentId: "agent-test",
+      canUseTool: () => ({ behavior: "deny", message: "no" }),
+      onPermissionDecision: (record) => {
+        records.push(record);
+      },
+    });
+    (session as unknown as { transport: { write: () => Promise<void> } }).transport = {
+      write: async () => {
+        throw new Error("CLI stdin closed");
+      },
+    };
+    const handleCanUseTool = (
+      session as unknown as { handleCanUseTool: (id: string, req: unknown) => Promise<void> }
+    ).handleCanUseTool.bind(session);
+
+    await expect(
+      handleCanUseTool("req-1", { subtype: "can_use_tool", tool_name: "Bash", tool_call_id: "tc-w", input: { command: "ls" } }),
+    ).rejects.toThrow("CLI stdin closed");
+    await waitFor(() => records.length === 1);
+
+    expect(records[0]).toMatchObject({
+      requestId: "req-1",
+      toolCallId: "tc-w",
+      behavior: "deny",
+      mechanism: "callback",
+      writeError: "CLI stdin closed",
+    });
+  });
+
+  test("createJsonlAuditSink appends one JSON record per line", async () => {
+    const file = join(dir, "nested", "audit.jsonl");
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          await ctx.requestPermission("Bash", { command: "ls" });
+          await ctx.requestPermission("Bash", { command: "pwd" });
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      permissionMode: "bypassPermissions",
+      onPermissionDecision: createJsonlAuditSink(file),
+    });
+    try {
+      await session.run("go");
+      await waitFor(() => {
+        try {
+          return readFileSync(file, "utf8").trim().split("\n").length === 2;
+        } catch {
+          return false;
+        }
+      });
+
+      const lines = readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+      expect(lines.map((l) => [l.toolName, l.input.command, l.behavior, l.mechanism])).toEqual([
+        ["Bash", "ls", "allow", "bypass"],
+        ["Bash", "pwd", "allow", "bypass"],
+      ]);
+    } finally {
+      session.close();
+    }
+  });
+});
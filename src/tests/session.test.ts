@@ -1,10 +1,11 @@
 import { describe, expect, test } from "bun:test";
+import { createSession } from "../index.js";
 import { Session } from "../session.js";
-import type { MessageWire, SDKMessage, WireMessage } from "../types.js";
+import type { MessageWire, SDKMessage, Transport, WireMessage } from "../types.js";
 
 const BUFFER_LIMIT = 100;
 
-class MockTransport {
+class MockTransport implements Transport {
   writes: unknown[] = [];
   private queue: WireMessage[] = [];
   private resolvers: Array<(msg: WireMessage | null) => void> = [];
@@ -44,6 +45,10 @@ class MockTransport {
     this.end();
   }
 
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
   end(): void {
     if (this.closed) {
       return;
@@ -68,10 +73,6 @@ class MockTransport {
   }
 }
 
-function attachMockTransport(session: Session, transport: MockTransport): void {
-  (session as unknown as { transport: MockTransport }).transport = transport;
-}
-
 function createInitMessage(
   overrides: Record<string, unknown> = {},
 ): WireMessage {
@@ -96,6 +97,17 @@ function createAssistantMessage(index: number): WireMessage {
   } as WireMessage;
 }
 
+function createStreamEventMessage(index: number): WireMessage {
+  return {
+    type: "stream_event",
+    uuid: `stream-${index}`,
+    event: {
+      message_type: "assistant_message",
+      content: `chunk-${index}`,
+    },
+  } as WireMessage;
+}
+
 function createApprovalRequestMessage(
   index: number,
   toolCall: {
@@ -202,9 +214,8 @@ async function waitFor(
 
 describe("Session", () => {
   test("initialize returns optional init settings when provided by CLI", async () => {
-    const session = new Session();
     const transport = new MockTransport();
-    attachMockTransport(session, transport);
+    const session = new Session({ transport });
 
     try {
       transport.push(
@@ -232,6 +243,26 @@ describe("Session", () => {
     }
   });
 
+  test("createSession uses an injected transport instead of spawning the CLI", async () => {
+    const transport = new MockTransport();
+    const session = createSession("agent-1", { transport });
+
+    try {
+      transport.push(createInitMessage());
+      const init = await session.initialize();
+      expect(init.agentId).toBe("agent-1");
+
+      await session.send("hello");
+      expect(transport.writes).toContainEqual({
+        type: "user",
+        message: { role: "user", content: "hello" },
+      });
+    } finally {
+      session.close();
+    }
+    expect(transport.isClosed).toBe(true);
+  });
+
   describe("handleCanUseTool with bypassPermissions", () => {
     async function invokeCanUseTool(
       session: Session,
@@ -408,6 +439,7 @@ describe("Session", () => {
         toolName: "Bash",
         toolInput: { command: "pwd" },
         rawArguments: JSON.stringify({ command: "pwd" }),
+        approval: true,
         uuid: "approval-1",
       });
     });
@@ -429,6 +461,7 @@ describe("Session", () => {
         toolName: "Read",
         toolInput: { raw: "path=/tmp/foo.txt" },
         rawArguments: "path=/tmp/foo.txt",
+        approval: true,
         uuid: "approval-2",
       });
     });
@@ -477,15 +510,15 @@ describe("Session", () => {
   describe("background pump parity", () => {
     test("handles can_use_tool control requests before stream iteration starts", async () => {
       let callbackInvocations = 0;
+      const transport = new MockTransport();
       const session = new Session({
         permissionMode: "default",
         canUseTool: () => {
           callbackInvocations += 1;
           return { behavior: "allow" };
         },
+        transport,
       });
-      const transport = new MockTransport();
-      attachMockTransport(session, transport);
 
       try {
         transport.push(createInitMessage());
@@ -526,11 +559,11 @@ describe("Session", () => {
     });
 
     test("bounds buffered stream messages and drops oldest deterministically", async () => {
+      const transport = new MockTransport();
       const session = new Session({
         permissionMode: "default",
+        transport,
       });
-      const transport = new MockTransport();
-      attachMockTransport(session, transport);
 
       const assistantCount = BUFFER_LIMIT + 20;
 
@@ -580,12 +613,194 @@ describe("Session", () => {
       }
     });
 
-    test("emits error and retry messages instead of dropping them", async () => {
+    async function streamAfterMarker(
+      session: Session,
+      transport: MockTransport,
+    ): Promise<SDKMessage[]> {
+      transport.push(
+        createCanUseToolRequest("post-result-marker", "EnterPlanMode", {}),
+      );
+      await waitFor(() =>
+        findControlResponseByRequestId(
+          transport.writes,
+          "post-result-marker",
+        ) !== undefined,
+      );
+
+      const streamed: SDKMessage[] = [];
+      for await (const msg of session.stream()) {
+        streamed.push(msg);
+      }
+      return streamed;
+    }
+
+    test("never drops result, error or tool_call messages on overflow", async () => {
+      const dropped: Array<{ type: string; total: number }> = [];
+      const transport = new MockTransport();
       const session = new Session({
         permissionMode: "default",
+        maxBufferedStreamMessages: 3,
+        onStreamMessageDropped: (msg, total) => {
+          dropped.push({ type: msg.type, total });
+        },
+        transport,
       });
+
+      try {
+        transport.push(createInitMessage());
+        await session.initialize();
+
+        transport.push(createErrorWireMessage());
+        transport.push(
+          createApprovalRequestMessage(1, {
+            name: "Bash",
+            arguments: "{}",
+            tool_call_id: "call-1",
+          }) as unknown as WireMessage,
+        );
+        for (let i = 1; i <= 5; i++) {
+          transport.push(createAssistantMessage(i));
+        }
+        transport.push(createResultMessage());
+
+        const streamed = await streamAfterMarker(session, transport);
+
+        expect(streamed.map((msg) => msg.type)).toEqual([
+          "error",
+          "tool_call",
+          "result",
+        ]);
+        expect(session.droppedStreamMessages).toBe(5);
+        expect(dropped.every((d) => d.type === "assistant")).toBe(true);
+        expect(dropped[dropped.length - 1]?.total).toBe(5);
+      } finally {
+        session.close();
+      }
+    });
+
+    test("drop-partials-only discards stream_event chunks but keeps complete messages", async () => {
       const transport = new MockTransport();
-      attachMockTransport(session, transport);
+      const session = new Session({
+        permissionMode: "default",
+        streamBufferPolicy: "drop-partials-only",
+        maxBufferedStreamMessages: 2,
+        transport,
+      });
+
+      try {
+        transport.push(createInitMessage());
+        await session.initialize();
+
+        for (let i = 1; i <= 3; i++) {
+          transport.push(createStreamEventMessage(i));
+        }
+        for (let i = 1; i <= 3; i++) {
+          transport.push(createAssistantMessage(i));
+        }
+        transport.push(createResultMessage());
+
+        const streamed = await streamAfterMarker(session, transport);
+
+        expect(streamed.map((msg) => msg.type)).toEqual([
+          "assistant",
+          "assistant",
+          "assistant",
+          "result",
+        ]);
+        expect(session.droppedStreamMessages).toBe(3);
+      } finally {
+        session.close();
+      }
+    });
+
+    test("unbounded policy keeps every buffered message", async () => {
+      const transport = new MockTransport();
+      const session = new Session({
+        permissionMode: "default",
+        streamBufferPolicy: "unbounded",
+        transport,
+      });
+
+      const assistantCount = BUFFER_LIMIT + 50;
+
+      try {
+        transport.push(createInitMessage());
+        await session.initialize();
+
+        for (let i = 1; i <= assistantCount; i++) {
+          transport.push(createAssistantMessage(i));
+        }
+        transport.push(createResultMessage());
+
+        const streamed = await streamAfterMarker(session, transport);
+
+        expect(streamed.filter((msg) => msg.type === "assistant").length).toBe(
+          assistantCount,
+        );
+        expect(session.droppedStreamMessages).toBe(0);
+      } finally {
+        session.close();
+      }
+    });
+
+    test("block policy pauses the pump until the consumer drains", async () => {
+      const transport = new MockTransport();
+      const session = new Session({
+        permissionMode: "default",
+        streamBufferPolicy: "block",
+        maxBufferedStreamMessages: 2,
+        transport,
+      });
+
+      try {
+        transport.push(createInitMessage());
+        await session.initialize();
+
+        for (let i = 1; i <= 5; i++) {
+          transport.push(createAssistantMessage(i));
+        }
+        transport.push(createResultMessage());
+        transport.push(
+          createCanUseToolRequest("post-result-marker", "EnterPlanMode", {}),
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        // Pump is parked on the full buffer, so the marker is still unread
+        expect(
+          findControlResponseByRequestId(transport.writes, "post-result-marker"),
+        ).toBeUndefined();
+
+        const streamed: SDKMessage[] = [];
+        for await (const msg of session.stream()) {
+          streamed.push(msg);
+        }
+
+        expect(streamed.map((msg) => msg.type)).toEqual([
+          "assistant",
+          "assistant",
+          "assistant",
+          "assistant",
+          "assistant",
+          "result",
+        ]);
+        expect(session.droppedStreamMessages).toBe(0);
+        await waitFor(() =>
+          findControlResponseByRequestId(
+            transport.writes,
+            "post-result-marker",
+          ) !== undefined,
+        );
+      } finally {
+        session.close();
+      }
+    });
+
+    test("emits error and retry messages instead of dropping them", async () => {
+      const transport = new MockTransport();
+      const session = new Session({
+        permissionMode: "default",
+        transport,
+      });
 
       try {
         transport.push(createInitMessage());
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { createSession } from "../index.js";
+import { validateSchema } from "../json-schema.js";
+import { extractJson } from "../structured-output.js";
+import { FakeCli } from "../testing.js";
+
+const releaseSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    bullets: { type: "array", items: { type: "string" } },
+    kind: { enum: ["major", "minor", "patch"] },
+  },
+  required: ["title", "bullets"],
+  additionalProperties: false,
+};
+
+describe("extractJson", () => {
+  test("prefers the last fenced block", () => {
+    const text = 'Draft:\n```json\n{"a":1}\n```\nFinal:\n```json\n{"a":2}\n```';
+    expect(extractJson(text)).toEqual({ ok: true, value: { a: 2 } });
+  });
+
+  test("falls back to bare JSON and embedded objects", () => {
+    expect(extractJson(' [1, 2] ')).toEqual({ ok: true, value: [1, 2] });
+    expect(extractJson('Here you go: {"a": true} hope that helps')).toEqual({
+      ok: true,
+      value: { a: true },
+    });
+    expect(extractJson("no json here")).toEqual({ ok: false });
+  });
+});
+
+describe("validateSchema", () => {
+  test("reports every violation with its path", () => {
+    const issues = validateSchema(releaseSchema, { title: "", bullets: ["ok", 3], extra: 1 });
+    expect(issues).toEqual([
+      { path: "/title", message: "must have at least 1 characters" },
+      { path: "/bullets/1", message: "expected string, got integer" },
+      { path: "/extra", message: "is not an allowed property" },
+    ]);
+  });
+
+  test("resolves $defs references and combinators", () => {
+    const schema = {
+      $defs: { id: { type: "integer", minimum: 1 } },
+      type: "object",
+      properties: {
+        id: { $ref: "#/$defs/id" },
+        owner: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+    };
+    expect(validateSchema(schema, { id: 3, owner: null })).toEqual([]);
+    expect(validateSchema(schema, { id: 0, owner: 5 }).map((i) => i.path)).toEqual(["/id", "/owner"]);
+  });
+});
+
+describe("session.run with outputSchema", () => {
+  test("returns the validated object and instructs the agent", async () => {
+    const cli = new FakeCli({
+      turns: [[{ type: "assistant", content: '```json\n{"title":"v1","bullets":["fix"]}\n```' }]],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("Write release notes", { outputSchema: releaseSchema });
+      expect(turn.output).toEqual({ title: "v1", bullets: ["fix"] });
+      expect(turn.outputError).toBeUndefined();
+      expect(String(cli.userMessages[0])).toContain('"required"');
+    } finally {
+      session.close();
+    }
+  });
+
+  test("sends correction turns until the reply validates", async () => {
+    const cli = new FakeCli({
+      turns: [
+        [{ type: "assistant", content: "Sure! Notes coming soon." }],
+        [{ type: "assistant", content: '{"title":"v1"}' }],
+        [{ type: "assistant", content: '{"title":"v1","bullets":[]}' }],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("Write release notes", { outputSchema: releaseSchema });
+      expect(turn.output).toEqual({ title: "v1", bullets: [] });
+      expect(cli.userMessages).toHaveLength(3);
+      expect(String(cli.userMessages[1])).toContain("did not contain valid JSON");
+      expect(String(cli.userMessages[2])).toContain("/bullets: is required");
+    } finally {
+      session.close();
+    }
+  });
+
+  test("gives up with a structured error after maxOutputCorrections", async () => {
+    const cli = new FakeCli({
+      turns: [
+        [{ type: "assistant", content: '{"title":1,"bullets":[]}' }],
+        [{ type: "assistant", content: '{"title":2,"bullets":[]}' }],
+      ],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("Write release notes", {
+        outputSchema: releaseSchema,
+        maxOutputCorrections: 1,
+      });
+      expect(turn.output).toBeUndefined();
+      expect(turn.outputError).toMatchObject({
+        attempts: 2,
+        rawText: '{"title":2,"bullets":[]}',
+        issues: [{ path: "/title", message: "expected string, got integer" }],
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("infers the output type from TypeBox-style schemas", async () => {
+    const schema = {
+      ...releaseSchema,
+      [Symbol.for("TypeBox.Kind")]: "Object",
+    } as typeof releaseSchema & { static: { title: string; bullets: string[] } };
+    const cli = new FakeCli({
+      turns: [[{ type: "assistant", content: '{"title":"v2","bullets":["a"]}' }]],
+    });
+    const session = createSession("agent-fake", { transport: cli });
+    try {
+      const turn = await session.run("Write release notes", { outputSchema: schema });
+      const title: string | undefined = turn.output?.title;
+      expect(title).toBe("v2");
+    } finally {
+      session.close();
+    }
+  });
+});
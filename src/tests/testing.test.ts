@@ -0,0 +1,194 @@
+import { describe, expect, test } from "bun:test";
+import { createSession } from "../index.js";
+import { FakeCli } from "../testing.js";
+import type { AnyAgentTool, SDKMessage } from "../types.js";
+
+async function collect(stream: AsyncGenerator<SDKMessage>): Promise<SDKMessage[]> {
+  const out: SDKMessage[] = [];
+  for await (const msg of stream) {
+    out.push(msg);
+  }
+  return out;
+}
+
+describe("FakeCli", () => {
+  test("emits init with configured identity", async () => {
+    const cli = new FakeCli({
+      agentId: "agent-kit",
+      conversationId: "conv-kit",
+      tools: ["Bash"],
+      init: { memfs_enabled: true },
+    });
+    const session = createSession("agent-kit", { transport: cli });
+
+    try {
+      const init = await session.initialize();
+      expect(init.agentId).toBe("agent-kit");
+      expect(init.conversationId).toBe("conv-kit");
+      expect(init.tools).toEqual(["Bash"]);
+      expect(init.memfsEnabled).toBe(true);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("plays scripted steps and auto-emits a result", async () => {
+    const cli = new FakeCli();
+    cli.enqueueTurn([
+      { type: "reasoning", content: "thinking" },
+      { type: "tool_call", toolName: "Bash", toolInput: { command: "ls" }, toolCallId: "call-1" },
+      { type: "tool_return", toolCallId: "call-1", content: "a.txt" },
+      { type: "assistant", content: "done" },
+    ]);
+    const session = createSession(undefined, { transport: cli });
+
+    try {
+      await session.send("hi");
+      const msgs = await collect(session.stream());
+
+      expect(msgs.map((m) => m.type)).toEqual([
+        "reasoning",
+        "tool_call",
+        "tool_result",
+        "assistant",
+        "result",
+      ]);
+      expect(msgs[1]).toMatchObject({ toolCallId: "call-1", toolInput: { command: "ls" } });
+      expect(msgs[4]).toMatchObject({ success: true, result: "done", conversationId: "conv-fake" });
+      expect(cli.userMessages).toEqual(["hi"]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("routes can_use_tool through the session's canUseTool callback", async () => {
+    const cli = new FakeCli({
+      turns: [
+        [
+          { type: "can_use_tool", toolName: "Bash", input: { command: "rm -rf /" } },
+          { type: "can_use_tool", toolName: "Read", input: { file_path: "a" }, output: "contents" },
+        ],
+      ],
+    });
+    const session = createSession(undefined, {
+      transport: cli,
+      canUseTool: (toolName) =>
+        toolName === "Bash"
+          ? { behavior: "deny", message: "no shell" }
+          : { behavior: "allow" },
+    });
+
+    try {
+      await session.send("go");
+      const results = (await collect(session.stream())).filter(
+        (m) => m.type === "tool_result",
+      );
+
+      expect(results).toMatchObject([
+        { isError: true, content: "no shell" },
+        { isError: false, content: "contents" },
+      ]);
+    } finally {
+      session.close();
+    }
+  });
+
+  test("executes external tools registered on the session", async () => {
+    const echoTool: AnyAgentTool = {
+      label: "Echo",
+      name: "echo",
+      description: "Echo text back",
+      parameters: { type: "object", properties: { text: { type: "string" } } },
+      execute: async (_id, args) => ({
+        content: [{ type: "text", text: `echo: ${(args as { text: string }).text}` }],
+      }),
+    };
+    const cli = new FakeCli();
+    cli.enqueueTurn(async (ctx) => {
+      const result = await ctx.executeExternalTool("echo", { text: "ping" });
+      ctx.assistant(result.content[0]?.text ?? "");
+    });
+    const session = createSession(undefined, { transport: cli, tools: [echoTool] });
+
+    try {
+      await session.send("call echo");
+      const msgs = await collect(session.stream());
+
+      expect(cli.registeredTools.map((t) => t.name)).toEqual(["echo"]);
+      expect(msgs.find((m) => m.type === "assistant")).toMatchObject({ content: "echo: ping" });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("reports unscripted turns as an error result", async () => {
+    const cli = new FakeCli();
+    const session = createSession(undefined, { transport: cli });
+
+    try {
+      await session.send("unexpected");
+      const msgs = await collect(session.stream());
+
+      expect(msgs[0]).toMatchObject({ type: "error" });
+      expect(msgs[1]).toMatchObject({ type: "result", success: false });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("interrupt ends a function turn with an interrupted result", async () => {
+    const cli = new FakeCli();
+    cli.enqueueTurn(async (ctx) => {
+      ctx.assistant("working");
+      await new Promise<void>((resolve) => ctx.signal.addEventListener("abort", () => resolve()));
+    });
+    const session = createSession(undefined, { transport: cli });
+
+    try {
+      await session.send("long task");
+      const msgs: SDKMessage[] = [];
+      for await (const msg of session.stream()) {
+        msgs.push(msg);
+        if (msg.type === "assistant") {
+          await session.abort();
+        }
+      }
+
+      expect(cli.interruptCount).toBe(1);
+      expect(msgs[msgs.length - 1]).toMatchObject({
+        type: "result",
+        success: false,
+        error: "interrupted",
+        stopReason: "cancelled",
+      });
+    } finally {
+      session.close();
+    }
+  });
+
+  test("serves list_messages and bootstrap_session_state from history", async () => {
+    const history = [1, 2, 3, 4, 5].map((n) => ({ id: `m${n}`, message_type: "user_message" }));
+    const cli = new FakeCli({ history });
+    const session = createSession(undefined, { transport: cli });
+
+    try {
+      await session.initialize();
+
+      const page1 = await session.listMessages({ limit: 2 });
+      expect(page1.messages).toEqual([history[4], history[3]]);
+      expect(page1.hasMore).toBe(true);
+      expect(page1.nextBefore).toBe("m4");
+
+      const page2 = await session.listMessages({ before: "m4", limit: 10, order: "asc" });
+      expect(page2.messages).toEqual(history.slice(0, 3));
+      expect(page2.hasMore).toBe(false);
+
+      const state = await session.bootstrapState({ limit: 1 });
+      expect(state.agentId).toBe("agent-fake");
+      expect(state.messages).toEqual([history[4]]);
+      expect(state.hasMore).toBe(true);
+    } finally {
+      session.close();
+    }
+  });
+});
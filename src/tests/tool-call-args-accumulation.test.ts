@@ -1,6 +1,7 @@
 import { describe, expect, mock, test } from "bun:test";
 import { Session } from "../session.js";
-import type { WireMessage } from "../types.js";
+import { ToolCallAccumulator } from "../tool-call-accumulator.js";
+import type { SDKMessage, WireMessage } from "../types.js";
 
 type FakeTransport = {
   messages: () => AsyncGenerator<WireMessage>;
@@ -270,3 +271,235 @@ describe("tool call streaming passthrough", () => {
     expect(toolMsgs[2]?.toolCallId).toBe("tc-A"); // continuation via index
   });
 });
+
+function multiToolChunk(
+  calls: Array<{
+    index: number;
+    args: string;
+    toolCallId?: string;
+    toolName?: string;
+    nested?: boolean;
+  }>,
+  uuid: string,
+  messageType: "tool_call_message" | "approval_request_message" = "tool_call_message"
+): WireMessage {
+  return {
+    type: "message",
+    message_type: messageType,
+    uuid,
+    tool_calls: calls.map((call) => {
+      const toolCall: Record<string, unknown> = call.nested
+        ? { index: call.index, function: { name: call.toolName ?? "Bash", arguments: call.args } }
+        : { index: call.index, name: call.toolName ?? "Bash", arguments: call.args };
+      if (call.toolCallId) {
+        toolCall[call.nested ? "id" : "tool_call_id"] = call.toolCallId;
+      }
+      return toolCall;
+    }),
+  } as unknown as WireMessage;
+}
+
+describe("parallel tool calls in a single chunk", () => {
+  async function pump(messages: WireMessage[]) {
+    const { transport } = makeFakeTransport(messages);
+    const session = new Session({ agentId: "agent-test" });
+    (session as unknown as { transport: FakeTransport }).transport = transport;
+    await (session as unknown as { runBackgroundPump: () => Promise<void> })
+      .runBackgroundPump();
+    return queuedMessages(session).filter((m) => m.type === "tool_call");
+  }
+
+  test("emits one tool_call per entry of tool_calls", async () => {
+    const toolMsgs = await pump([
+      multiToolChunk(
+        [
+          { index: 0, args: '{"command":"ls"}', toolCallId: "tc-P1" },
+          { index: 1, args: '{"query":"docs"}', toolCallId: "tc-P2", toolName: "web_search" },
+          { index: 2, args: '{"file_path":"a.ts"}', toolCallId: "tc-P3", toolName: "Read" },
+        ],
+        "msg-20"
+      ),
+      reasoningChunk("msg-21"),
+    ]);
+
+    expect(toolMsgs.map((m) => m.toolCallId)).toEqual(["tc-P1", "tc-P2", "tc-P3"]);
+    expect(toolMsgs.map((m) => m.toolName)).toEqual(["Bash", "web_search", "Read"]);
+    expect(toolMsgs[1]?.toolInput).toEqual({ query: "docs" });
+    expect(toolMsgs.every((m) => m.uuid === "msg-20")).toBe(true);
+  });
+
+  test("resolves index-only continuations for every entry in a multi-call chunk", async () => {
+    const toolMsgs = await pump([
+      multiToolChunk(
+        [
+          { index: 0, args: '{"command":', toolCallId: "tc-Q1" },
+          { index: 1, args: '{"query":', toolCallId: "tc-Q2", toolName: "web_search" },
+        ],
+        "msg-22"
+      ),
+      multiToolChunk(
+        [
+          { index: 1, args: '"docs"}', toolName: "web_search" },
+          { index: 0, args: '"ls"}' },
+        ],
+        "msg-22"
+      ),
+      reasoningChunk("msg-23"),
+    ]);
+
+    expect(toolMsgs.map((m) => m.toolCallId)).toEqual(["tc-Q1", "tc-Q2", "tc-Q2", "tc-Q1"]);
+    expect(toolMsgs.map((m) => m.rawArguments)).toEqual([
+      '{"command":',
+      '{"query":',
+      '"docs"}',
+      '"ls"}',
+    ]);
+  });
+
+  test("mixes new and continuing calls in nested OpenAI function shape", async () => {
+    const toolMsgs = await pump([
+      multiToolChunk(
+        [{ index: 0, args: '{"a":', toolCallId: "call_R1", nested: true }],
+        "msg-24",
+        "approval_request_message"
+      ),
+      multiToolChunk(
+        [
+          { index: 0, args: "1}", nested: true },
+          { index: 1, args: '{"b":2}', toolCallId: "call_R2", toolName: "Edit", nested: true },
+        ],
+        "msg-24",
+        "approval_request_message"
+      ),
+      reasoningChunk("msg-25"),
+    ]);
+
+    expect(toolMsgs.map((m) => m.toolCallId)).toEqual(["call_R1", "call_R1", "call_R2"]);
+    expect(toolMsgs[2]?.toolName).toBe("Edit");
+    expect(toolMsgs[2]?.toolInput).toEqual({ b: 2 });
+  });
+
+  test("skips entries whose ID cannot be resolved without dropping siblings", async () => {
+    const toolMsgs = await pump([
+      multiToolChunk(
+        [
+          { index: 5, args: "orphan" },
+          { index: 6, args: '{"command":"pwd"}', toolCallId: "tc-S1" },
+        ],
+        "msg-26"
+      ),
+      reasoningChunk("msg-27"),
+    ]);
+
+    expect(toolMsgs.map((m) => m.toolCallId)).toEqual(["tc-S1"]);
+  });
+});
+
+describe("accumulateToolCalls mode", () => {
+  async function pump(messages: WireMessage[]) {
+    const { transport } = makeFakeTransport(messages);
+    const session = new Session({ agentId: "agent-test", accumulateToolCalls: true });
+    (session as unknown as { transport: FakeTransport }).transport = transport;
+    await (session as unknown as { runBackgroundPump: () => Promise<void> })
+      .runBackgroundPump();
+    return queuedMessages(session);
+  }
+
+  function toolReturn(toolCallId: string, uuid: string): WireMessage {
+    return {
+      type: "message",
+      message_type: "tool_return_message",
+      uuid,
+      tool_call_id: toolCallId,
+      tool_return: "hi",
+      status: "success",
+    } as unknown as WireMessage;
+  }
+
+  test("emits deltas then exactly one completed tool_call", async () => {
+    const msgs = await pump([
+      toolChunk("tc-A1", '{"command":"echo', "msg-30"),
+      toolChunk("tc-A1", ' hi"}', "msg-30"),
+      toolChunk("tc-A1", '{"command":"echo hi"}', "msg-31", "approval_request_message"),
+      reasoningChunk("msg-32"),
+    ]);
+
+    expect(msgs.map((m) => m.type)).toEqual([
+      "tool_call_delta",
+      "tool_call_delta",
+      "tool_call",
+      "reasoning",
+    ]);
+    expect(msgs[1]?.accumulatedArguments).toBe('{"command":"echo hi"}');
+    expect(msgs[2]).toMatchObject({
+      toolCallId: "tc-A1",
+      toolName: "Bash",
+      toolInput: { command: "echo hi" },
+      rawArguments: '{"command":"echo hi"}',
+    });
+  });
+
+  test("full arguments on an approval request replace incomplete chunks", async () => {
+    const msgs = await pump([
+      toolChunk("tc-A5", '{"command":"echo', "msg-36"),
+      toolChunk("tc-A5", '{"command":"echo hi"}', "msg-37", "approval_request_message"),
+    ]);
+
+    expect(msgs.map((m) => m.type)).toEqual(["tool_call_delta", "tool_call_delta", "tool_call"]);
+    expect(msgs[1]?.accumulatedArguments).toBe('{"command":"echo hi"}');
+    expect(msgs[2]).toMatchObject({
+      toolCallId: "tc-A5",
+      toolInput: { command: "echo hi" },
+      rawArguments: '{"command":"echo hi"}',
+    });
+  });
+
+  test("streamed chunks that parse on their own still append", async () => {
+    const msgs = await pump([
+      toolChunk("tc-A7", '{"query":"x","filter":', "msg-39"),
+      toolChunk("tc-A7", "{}", "msg-39"),
+      toolChunk("tc-A7", "}", "msg-39"),
+    ]);
+
+    expect(msgs.map((m) => m.type)).toEqual(["tool_call_delta", "tool_call_delta", "tool_call_delta", "tool_call"]);
+    expect(msgs[3]).toMatchObject({
+      toolInput: { query: "x", filter: {} },
+      rawArguments: '{"query":"x","filter":{}}',
+    });
+  });
+
+  test("forgets completed tool calls when the turn ends", () => {
+    const accumulator = new ToolCallAccumulator();
+    const call = { type: "tool_call", toolCallId: "tc-A6", toolName: "Bash", toolInput: {}, rawArguments: '{"command":"ls"}', uuid: "msg-38" } as const;
+    const result = { type: "result", success: true, durationMs: 0, conversationId: null } as unknown as SDKMessage;
+
+    expect(accumulator.push(call).map((m) => m.type)).toEqual(["tool_call_delta", "tool_call"]);
+    expect(accumulator.push(call)).toEqual([]);
+    accumulator.push(result);
+    expect(accumulator.push(call).map((m) => m.type)).toEqual(["tool_call_delta", "tool_call"]);
+  });
+
+  test("finalizes incomplete arguments when the tool_result arrives", async () => {
+    const msgs = await pump([
+      toolChunk("tc-A2", '{"command":"ls"', "msg-33"),
+      toolReturn("tc-A2", "msg-34"),
+    ]);
+
+    expect(msgs.map((m) => m.type)).toEqual(["tool_call_delta", "tool_call", "tool_result"]);
+    expect(msgs[1]?.toolInput).toEqual({ raw: '{"command":"ls"' });
+  });
+
+  test("keeps parallel calls separate", async () => {
+    const msgs = await pump([
+      indexedToolChunk(0, '{"command":', "msg-35", { toolCallId: "tc-A3" }),
+      indexedToolChunk(1, '{"file_path":', "msg-35", { toolCallId: "tc-A4", toolName: "Read" }),
+      indexedToolChunk(1, '"a.ts"}', "msg-35"),
+      indexedToolChunk(0, '"pwd"}', "msg-35"),
+    ]);
+
+    const calls = msgs.filter((m) => m.type === "tool_call");
+    expect(calls.map((m) => m.toolCallId)).toEqual(["tc-A4", "tc-A3"]);
+    expect(calls[0]?.toolInput).toEqual({ file_path: "a.ts" });
+    expect(calls[1]?.toolInput).toEqual({ command: "pwd" });
+  });
+});
@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  errorResult,
+  fileResult,
+  imageResult,
+  readDateParam,
+  readEnumParam,
+  readIntegerParam,
+  readJsonParam,
+  readNumberArrayParam,
+  readObjectParam,
+  readStringParam,
+  textResult,
+  ToolParamError,
+  toolResult,
+} from "../index.js";
+
+describe("tool result helpers", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "sdk-tool-helpers-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("textResult and errorResult", () => {
+    expect(textResult("hi", { n: 1 })).toEqual({ content: [{ type: "text", text: "hi" }], details: { n: 1 } });
+    expect(errorResult("boom")).toMatchObject({ content: [{ type: "text", text: "boom" }], isError: true });
+  });
+
+  test("imageResult accepts base64 or bytes", () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    expect(imageResult(bytes, "image/png").content).toEqual([
+      { type: "image", data: "AQID", mimeType: "image/png" },
+    ]);
+    expect(imageResult("AQID", "image/gif", { text: "a gif", details: { w: 1 } })).toEqual({
+      content: [
+        { type: "text", text: "a gif" },
+        { type: "image", data: "AQID", mimeType: "image/gif" },
+      ],
+      details: { w: 1 },
+    });
+  });
+
+  test("fileResult sends images, text and binary files appropriately", () => {
+    const png = join(dir, "pixel.png");
+    const notes = join(dir, "notes.md");
+    const blob = join(dir, "data.bin");
+    writeFileSync(png, Buffer.from([137, 80, 78, 71]));
+    writeFileSync(notes, "# Notes\nhello");
+    writeFileSync(blob, Buffer.from([0, 1, 2, 0]));
+
+    expect(fileResult(png)).toEqual({
+      content: [
+        { type: "text", text: "pixel.png" },
+        { type: "image", data: "iVBORw==", mimeType: "image/png" },
+      ],
+      details: { path: png, mimeType: "image/png", size: 4 },
+    });
+    expect(fileResult(notes).content).toEqual([{ type: "text", text: "# Notes\nhello" }]);
+    expect(fileResult(notes, { maxBytes: 7 }).content[0]?.text).toBe(
+      "# Notes\n[truncated: showing 7 of 13 bytes]"
+    );
+    expect(fileResult(blob).content[0]?.text).toBe("data.bin: binary file (application/octet-stream, 4 bytes)");
+  });
+
+  test("toolResult builds mixed content", () => {
+    const result = toolResult<{ points: number }>()
+      .text("Rendered:")
+      .image("AAAA", "image/webp")
+      .json({ points: 2 })
+      .details({ points: 2 })
+      .isError(false)
+      .build();
+
+    expect(result).toEqual({
+      content: [
+        { type: "text", text: "Rendered:" },
+        { type: "image", data: "AAAA", mimeType: "image/webp" },
+        { type: "text", text: '{\n  "points": 2\n}' },
+      ],
+      details: { points: 2 },
+    });
+    expect(toolResult().text("nope").isError().build().isError).toBe(true);
+  });
+});
+
+describe("parameter readers", () => {
+  function paramError(fn: () => unknown): ToolParamError {
+    try {
+      fn();
+    } catch (err) {
+      if (err instanceof ToolParamError) return err;
+      throw err;
+    }
+    throw new Error("expected a ToolParamError");
+  }
+
+  test("missing required params throw ToolParamError", () => {
+    const err = paramError(() => readStringParam({}, "path", { required: true }));
+    expect(err).toBeInstanceOf(Error);
+    expect(err.param).toBe("path");
+    expect(err.message).toBe("path required");
+  });
+
+  test("readEnumParam", () => {
+    const units = ["metric", "imperial"] as const;
+    expect(readEnumParam({ unit: " metric " }, "unit", units)).toBe("metric");
+    expect(readEnumParam({}, "unit", units)).toBeUndefined();
+    expect(paramError(() => readEnumParam({ unit: "kelvin" }, "unit", units)).message).toBe(
+      "unit must be one of metric, imperial"
+    );
+    expect(paramError(() => readEnumParam({ unit: 3 }, "unit", units, { required: true })).message).toBe(
+      "unit must be one of metric, imperial"
+    );
+  });
+
+  test("readIntegerParam enforces integers and bounds", () => {
+    expect(readIntegerParam({ n: "42" }, "n", { min: 1, max: 100 })).toBe(42);
+    expect(paramError(() => readIntegerParam({ n: 2.5 }, "n")).message).toBe("n must be an integer");
+    expect(paramError(() => readIntegerParam({ n: 0 }, "n", { min: 1 })).message).toBe("n must be >= 1");
+    expect(paramError(() => readIntegerParam({ n: 101 }, "n", { max: 100, label: "limit" })).message).toBe(
+      "limit must be <= 100"
+    );
+    expect(readIntegerParam({ n: " " }, "n")).toBeUndefined();
+    expect(paramError(() => readIntegerParam({}, "n", { required: true })).message).toBe("n required");
+    // Values that were given but aren't numbers are reported as such
+    expect(paramError(() => readIntegerParam({ n: "abc" }, "n")).message).toBe("n must be an integer");
+    expect(paramError(() => readIntegerParam({ n: "abc" }, "n", { required: true })).message).toBe(
+      "n must be an integer"
+    );
+    expect(paramError(() => readIntegerParam({ n: "12abc" }, "n")).message).toBe("n must be an integer");
+    expect(paramError(() => readIntegerParam({ n: true }, "n")).message).toBe("n must be an integer");
+  });
+
+  test("readDateParam parses ISO-8601", () => {
+    expect(readDateParam({ d: "2024-01-31" }, "d")?.toISOString()).toBe("2024-01-31T00:00:00.000Z");
+    expect(readDateParam({ d: "2024-01-31T09:30:00+02:00" }, "d")?.toISOString()).toBe(
+      "2024-01-31T07:30:00.000Z"
+    );
+    expect(paramError(() => readDateParam({ d: "next tuesday" }, "d")).message).toStartWith(
+      "d must be an ISO-8601 date"
+    );
+    expect(paramError(() => readDateParam({ d: "2024-13-45" }, "d")).param).toBe("d");
+    // Impossible days don't roll over into the next month
+    expect(paramError(() => readDateParam({ d: "2024-02-30" }, "d")).message).toStartWith(
+      "d must be an ISO-8601 date"
+    );
+    expect(paramError(() => readDateParam({ d: "2023-02-29T10:00:00Z" }, "d")).param).toBe("d");
+    expect(readDateParam({ d: "2024-02-29" }, "d")?.toISOString()).toBe("2024-02-29T00:00:00.000Z");
+    expect(paramError(() => readDateParam({ d: 20240131 }, "d")).param).toBe("d");
+  });
+
+  test("readNumberArrayParam", () => {
+    expect(readNumberArrayParam({ xs: [1, "2.5"] }, "xs")).toEqual([1, 2.5]);
+    expect(readNumberArrayParam({ xs: "3, 4" }, "xs")).toEqual([3, 4]);
+    expect(readNumberArrayParam({ xs: 5 }, "xs")).toEqual([5]);
+    expect(readNumberArrayParam({}, "xs")).toBeUndefined();
+    expect(paramError(() => readNumberArrayParam({ xs: [1, "two"] }, "xs")).message).toBe(
+      "xs must be an array of numbers"
+    );
+    expect(paramError(() => readNumberArrayParam({ xs: { a: 1 } }, "xs", { required: true })).message).toBe(
+      "xs must be an array of numbers"
+    );
+  });
+
+  test("readJsonParam and readObjectParam", () => {
+    expect(readJsonParam({ q: '{"a":[1]}' }, "q")).toEqual({ a: [1] });
+    expect(readJsonParam({ q: [1, 2] }, "q")).toEqual([1, 2]);
+    expect(paramError(() => readJsonParam({ q: "{oops" }, "q")).message).toBe("q must be valid JSON");
+
+    const schema = { properties: { name: { type: "string" } }, required: ["name"] };
+    expect(readObjectParam({ filter: '{"name":"x"}' }, "filter", { schema })).toEqual({ name: "x" });
+    expect(paramError(() => readObjectParam({ filter: [1] }, "filter")).message).toBe("filter must be an object");
+    expect(paramError(() => readObjectParam({ filter: { name: 1 } }, "filter", { schema })).message).toBe(
+      "filter is invalid:\n/name: expected string, got integer"
+    );
+  });
+});
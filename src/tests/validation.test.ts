@@ -53,6 +53,52 @@ describe("validation", () => {
     ).toThrow("Invalid sleeptime.stepCount");
   });
 
+  test("rejects invalid stream buffer options", () => {
+    expect(() =>
+      validateCreateSessionOptions({
+        // biome-ignore lint/suspicious/noExplicitAny: runtime validation test
+        streamBufferPolicy: "drop-newest" as any,
+      }),
+    ).toThrow("Invalid streamBufferPolicy");
+
+    expect(() =>
+      validateCreateSessionOptions({
+        maxBufferedStreamMessages: 0,
+      }),
+    ).toThrow("Invalid maxBufferedStreamMessages");
+
+    expect(() =>
+      validateCreateSessionOptions({
+        streamBufferPolicy: "block",
+        maxBufferedStreamMessages: 10,
+      }),
+    ).not.toThrow();
+  });
+
+  test("rejects non-function tool middleware", () => {
+    expect(() =>
+      validateCreateSessionOptions({
+        // biome-ignore lint/suspicious/noExplicitAny: runtime validation test
+        toolMiddleware: ["log"] as any,
+      }),
+    ).toThrow("Invalid toolMiddleware");
+
+    expect(() =>
+      validateCreateSessionOptions({
+        toolMiddleware: [async (_ctx, next) => next()],
+      }),
+    ).not.toThrow();
+  });
+
+  test("rejects a non-function onPermissionDecision hook", () => {
+    expect(() =>
+      validateCreateSessionOptions({
+        // biome-ignore lint/suspicious/noExplicitAny: runtime validation test
+        onPermissionDecision: "audit.jsonl" as any,
+      }),
+    ).toThrow("Invalid onPermissionDecision");
+  });
+
   test("rejects invalid agent skill source", () => {
     expect(() =>
       validateCreateAgentOptions({
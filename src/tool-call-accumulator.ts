@@ -0,0 +1,161 @@
+/**
+ * Tool Call Accumulator
+ *
+ * Stitches streamed tool_call chunks (which share a toolCallId and carry
+ * partial rawArguments) into a single completed SDKToolCallMessage.
+ */
+
+import type {
+  SDKMessage,
+  SDKToolCallDeltaMessage,
+  SDKToolCallMessage,
+} from "./types.js";
+
+interface PendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  arguments: string;
+  uuid: string;
+}
+
+function parseToolArguments(args: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(args) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Buffers tool_call chunks per toolCallId.
+ *
+ * Feed every stream message through push(). Each tool_call chunk becomes a
+ * `tool_call_delta` event for incremental UI, and exactly one final
+ * `tool_call` is emitted per toolCallId once its arguments parse as a complete
+ * JSON object, its matching `tool_result` arrives, or the turn ends. All other
+ * messages pass through unchanged.
+ *
+ * @example
+ * ```typescript
+ * const accumulator = new ToolCallAccumulator();
+ * for await (const chunk of session.stream()) {
+ *   for (const msg of accumulator.push(chunk)) {
+ *     if (msg.type === "tool_call") console.log(msg.toolName, msg.toolInput);
+ *   }
+ * }
+ * ```
+ */
+export class ToolCallAccumulator {
+  private pending = new Map<string, PendingToolCall>();
+  private completed = new Set<string>();
+
+  /**
+   * Process one stream message, returning the messages to surface in its place
+   */
+  push(msg: SDKMessage): SDKMessage[] {
+    switch (msg.type) {
+      case "tool_call":
+        return this.pushChunk(msg);
+      case "tool_result": {
+        const finished = this.finalize(msg.toolCallId);
+        return finished ? [finished, msg] : [msg];
+      }
+      case "result": {
+        // Tool call IDs don't carry over between turns
+        const flushed = this.flush();
+        this.completed.clear();
+        return [...flushed, msg];
+      }
+      case "error":
+        return [...this.flush(), msg];
+      default:
+        return [msg];
+    }
+  }
+
+  /**
+   * Finalize every pending tool call, parsed or not
+   */
+  flush(): SDKToolCallMessage[] {
+    const ids = Array.from(this.pending.keys());
+    return ids
+      .map((id) => this.finalize(id))
+      .filter((m): m is SDKToolCallMessage => m !== null);
+  }
+
+  /** Number of tool calls still waiting for complete arguments */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private pushChunk(chunk: SDKToolCallMessage): SDKMessage[] {
+    // Late chunks for an already-emitted call (e.g. an approval_request_message
+    // repeating the full arguments) must not produce a second tool_call.
+    if (this.completed.has(chunk.toolCallId)) {
+      return [];
+    }
+
+    const delta = chunk.rawArguments ?? "";
+    let entry = this.pending.get(chunk.toolCallId);
+    if (!entry) {
+      entry = {
+        toolCallId: chunk.toolCallId,
+        toolName: chunk.toolName,
+        arguments: "",
+        uuid: chunk.uuid,
+      };
+      this.pending.set(chunk.toolCallId, entry);
+    } else if (entry.toolName === "?" && chunk.toolName !== "?") {
+      entry.toolName = chunk.toolName;
+    }
+    // An approval_request_message repeats the full arguments; if they arrive
+    // before the streamed chunks completed, they replace the partial buffer.
+    // Streamed chunks always append, even when one parses on its own.
+    if (chunk.approval && entry.arguments && parseToolArguments(delta)) {
+      entry.arguments = delta;
+    } else {
+      entry.arguments += delta;
+    }
+
+    const out: SDKMessage[] = [];
+    if (delta) {
+      out.push({
+        type: "tool_call_delta",
+        toolCallId: entry.toolCallId,
+        toolName: entry.toolName,
+        argumentsDelta: delta,
+        accumulatedArguments: entry.arguments,
+        uuid: chunk.uuid,
+      } satisfies SDKToolCallDeltaMessage);
+    }
+
+    if (parseToolArguments(entry.arguments)) {
+      const finished = this.finalize(entry.toolCallId);
+      if (finished) out.push(finished);
+    }
+    return out;
+  }
+
+  private finalize(toolCallId: string): SDKToolCallMessage | null {
+    const entry = this.pending.get(toolCallId);
+    if (!entry) {
+      return null;
+    }
+    this.pending.delete(toolCallId);
+    this.completed.add(toolCallId);
+
+    return {
+      type: "tool_call",
+      toolCallId: entry.toolCallId,
+      toolName: entry.toolName,
+      toolInput:
+        parseToolArguments(entry.arguments) ??
+        (entry.arguments ? { raw: entry.arguments } : {}),
+      rawArguments: entry.arguments || undefined,
+      uuid: entry.uuid,
+    };
+  }
+}
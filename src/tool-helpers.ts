@@ -5,7 +5,10 @@
  * Matches the API from pi-coding-agent.
  */
 
-import type { AgentToolResult } from "./types.js";
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { formatSchemaIssues, validateSchema } from "./json-schema.js";
+import type { AgentToolResult, AgentToolResultContent } from "./types.js";
 
 /**
  * Create a JSON tool result
@@ -22,6 +25,179 @@ export function jsonResult(payload: unknown): AgentToolResult<unknown> {
   };
 }
 
+/**
+ * Create a plain text tool result
+ */
+export function textResult<T = undefined>(text: string, details?: T): AgentToolResult<T> {
+  return { content: [{ type: "text", text }], details };
+}
+
+/**
+ * Create an error tool result. The model sees it as a failed call, but the
+ * tool doesn't have to throw (and `details` still reach SDK consumers).
+ */
+export function errorResult<T = undefined>(message: string, details?: T): AgentToolResult<T> {
+  return { content: [{ type: "text", text: message }], details, isError: true };
+}
+
+/**
+ * Create an image tool result from base64 data or raw bytes
+ */
+export function imageResult<T = undefined>(
+  data: string | Uint8Array,
+  mimeType: string,
+  options: { text?: string; details?: T } = {},
+): AgentToolResult<T> {
+  return toolResult<T>()
+    .text(options.text ?? "")
+    .image(data, mimeType)
+    .details(options.details)
+    .build();
+}
+
+const FILE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+};
+
+/**
+ * Details attached by fileResult()
+ */
+export interface FileResultDetails {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Create a tool result from a file on disk. Images are sent as image content,
+ * text files as their contents (truncated at `maxBytes`), and other binary
+ * files as a short description.
+ */
+export function fileResult(
+  filePath: string,
+  options: { mimeType?: string; maxBytes?: number } = {},
+): AgentToolResult<FileResultDetails> {
+  const data = readFileSync(filePath);
+  const mimeType =
+    options.mimeType ?? FILE_MIME_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+  const details: FileResultDetails = { path: filePath, mimeType, size: data.length };
+  const name = basename(filePath);
+
+  if (mimeType.startsWith("image/")) {
+    return imageResult(data, mimeType, { text: name, details });
+  }
+  if (data.includes(0)) {
+    return textResult(`${name}: binary file (${mimeType}, ${data.length} bytes)`, details);
+  }
+  const maxBytes = options.maxBytes ?? 100_000;
+  const text = data.subarray(0, maxBytes).toString("utf8");
+  return textResult(
+    data.length > maxBytes ? `${text}\n[truncated: showing ${maxBytes} of ${data.length} bytes]` : text,
+    details,
+  );
+}
+
+/**
+ * Builder for tool results mixing text, images and JSON
+ *
+ * @example
+ * ```typescript
+ * return toolResult()
+ *   .text("Rendered chart:")
+ *   .image(png, "image/png")
+ *   .json({ points: 42 })
+ *   .details({ points: 42 })
+ *   .build();
+ * ```
+ */
+export class ToolResultBuilder<T = undefined> {
+  private content: AgentToolResultContent[] = [];
+  private resultDetails: T | undefined;
+  private error = false;
+
+  /** Append a text block (empty strings are skipped) */
+  text(text: string): this {
+    if (text) this.content.push({ type: "text", text });
+    return this;
+  }
+
+  /** Append an image from base64 data or raw bytes */
+  image(data: string | Uint8Array, mimeType: string): this {
+    const base64 = typeof data === "string" ? data : Buffer.from(data).toString("base64");
+    this.content.push({ type: "image", data: base64, mimeType });
+    return this;
+  }
+
+  /** Append a pretty-printed JSON text block */
+  json(payload: unknown): this {
+    return this.text(JSON.stringify(payload, null, 2));
+  }
+
+  details(details: T | undefined): this {
+    this.resultDetails = details;
+    return this;
+  }
+
+  /** Mark the result as an error */
+  isError(isError = true): this {
+    this.error = isError;
+    return this;
+  }
+
+  build(): AgentToolResult<T> {
+    const result: AgentToolResult<T> = { content: [...this.content] };
+    if (this.resultDetails !== undefined) result.details = this.resultDetails;
+    if (this.error) result.isError = true;
+    return result;
+  }
+}
+
+/**
+ * Start building a mixed-content tool result
+ */
+export function toolResult<T = undefined>(): ToolResultBuilder<T> {
+  return new ToolResultBuilder<T>();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PARAMETER READERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Thrown by the read*Param helpers when an argument is missing or invalid.
+ * The message is phrased for the model; middleware can check `instanceof`
+ * to tell bad input apart from tool failures.
+ */
+export class ToolParamError extends Error {
+  constructor(
+    /** Argument key that failed */
+    readonly param: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ToolParamError";
+  }
+}
+
+/**
+ * Options shared by the parameter readers
+ */
+export interface ParamOptions {
+  required?: boolean;
+  /** Name used in error messages (defaults to the key) */
+  label?: string;
+}
+
 /**
  * Options for reading string parameters
  */
@@ -53,12 +229,12 @@ export function readStringParam(
   const { required = false, trim = true, label = key, allowEmpty = false } = options;
   const raw = params[key];
   if (typeof raw !== "string") {
-    if (required) throw new Error(`${label} required`);
+    if (required) throw new ToolParamError(key, `${label} required`);
     return undefined;
   }
   const value = trim ? raw.trim() : raw;
   if (!value && !allowEmpty) {
-    if (required) throw new Error(`${label} required`);
+    if (required) throw new ToolParamError(key, `${label} required`);
     return undefined;
   }
   return value;
@@ -85,7 +261,7 @@ export function readNumberParam(
     }
   }
   if (value === undefined) {
-    if (required) throw new Error(`${label} required`);
+    if (required) throw new ToolParamError(key, `${label} required`);
     return undefined;
   }
   return integer ? Math.trunc(value) : value;
@@ -109,7 +285,7 @@ export function readBooleanParam(
     if (lower === "true" || lower === "1" || lower === "yes") return true;
     if (lower === "false" || lower === "0" || lower === "no") return false;
   }
-  if (required) throw new Error(`${label} required`);
+  if (required) throw new ToolParamError(key, `${label} required`);
   return undefined;
 }
 
@@ -129,7 +305,7 @@ export function readStringArrayParam(
       .map((entry) => entry.trim())
       .filter(Boolean);
     if (values.length === 0) {
-      if (required) throw new Error(`${label} required`);
+      if (required) throw new ToolParamError(key, `${label} required`);
       return undefined;
     }
     return values;
@@ -137,11 +313,239 @@ export function readStringArrayParam(
   if (typeof raw === "string") {
     const value = raw.trim();
     if (!value) {
-      if (required) throw new Error(`${label} required`);
+      if (required) throw new ToolParamError(key, `${label} required`);
       return undefined;
     }
     return [value];
   }
-  if (required) throw new Error(`${label} required`);
+  if (required) throw new ToolParamError(key, `${label} required`);
   return undefined;
 }
+
+/**
+ * Read a string parameter that must be one of `values`
+ */
+export function readEnumParam<T extends string>(
+  params: Record<string, unknown>,
+  key: string,
+  values: readonly T[],
+  options: ParamOptions & { required: true },
+): T;
+export function readEnumParam<T extends string>(
+  params: Record<string, unknown>,
+  key: string,
+  values: readonly T[],
+  options?: ParamOptions,
+): T | undefined;
+export function readEnumParam<T extends string>(
+  params: Record<string, unknown>,
+  key: string,
+  values: readonly T[],
+  options: ParamOptions = {},
+): T | undefined {
+  const { label = key } = options;
+  const raw = params[key];
+  if (raw !== undefined && raw !== null && typeof raw !== "string") {
+    throw new ToolParamError(key, `${label} must be one of ${values.join(", ")}`);
+  }
+  const value = readStringParam(params, key, options);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!values.includes(value as T)) {
+    throw new ToolParamError(key, `${label} must be one of ${values.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * Read an integer parameter, optionally bounded by `min`/`max` (inclusive)
+ */
+export function readIntegerParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { required: true; min?: number; max?: number },
+): number;
+export function readIntegerParam(
+  params: Record<string, unknown>,
+  key: string,
+  options?: ParamOptions & { min?: number; max?: number },
+): number | undefined;
+export function readIntegerParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { min?: number; max?: number } = {},
+): number | undefined {
+  const { required = false, label = key, min, max } = options;
+  const raw = params[key];
+  if (raw === undefined || raw === null || (typeof raw === "string" && !raw.trim())) {
+    if (required) throw new ToolParamError(key, `${label} required`);
+    return undefined;
+  }
+  // A value that was given but isn't a whole number is reported as such,
+  // not as missing
+  const value =
+    typeof raw === "number" ? raw
+    : typeof raw === "string" ? Number(raw.trim())
+    : Number.NaN;
+  if (!Number.isInteger(value)) {
+    throw new ToolParamError(key, `${label} must be an integer`);
+  }
+  if (min !== undefined && value < min) {
+    throw new ToolParamError(key, `${label} must be >= ${min}`);
+  }
+  if (max !== undefined && value > max) {
+    throw new ToolParamError(key, `${label} must be <= ${max}`);
+  }
+  return value;
+}
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Read an ISO-8601 date or date-time parameter as a Date
+ */
+export function readDateParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { required: true },
+): Date;
+export function readDateParam(
+  params: Record<string, unknown>,
+  key: string,
+  options?: ParamOptions,
+): Date | undefined;
+export function readDateParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions = {},
+): Date | undefined {
+  const { label = key } = options;
+  const invalid = () =>
+    new ToolParamError(key, `${label} must be an ISO-8601 date (e.g. 2024-01-31 or 2024-01-31T09:00:00Z)`);
+  const raw = params[key];
+  if (raw !== undefined && raw !== null && typeof raw !== "string") {
+    throw invalid();
+  }
+  const value = readStringParam(params, key, options);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = ISO_8601.test(value) ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw invalid();
+  }
+  // Date rolls impossible days over (2024-02-30 -> 2024-03-01); reject those
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number) as [number, number, number];
+  const calendar = new Date(Date.UTC(year, month - 1, day));
+  if (calendar.getUTCFullYear() !== year || calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) {
+    throw invalid();
+  }
+  return date;
+}
+
+/**
+ * Read a number array parameter. Accepts an array, a single number, or a
+ * comma-separated string.
+ */
+export function readNumberArrayParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions = {},
+): number[] | undefined {
+  const { required = false, label = key } = options;
+  const raw = params[key];
+  if (raw !== undefined && raw !== null && !Array.isArray(raw) && typeof raw !== "number" && typeof raw !== "string") {
+    throw new ToolParamError(key, `${label} must be an array of numbers`);
+  }
+  const entries =
+    Array.isArray(raw) ? raw
+    : typeof raw === "number" ? [raw]
+    : typeof raw === "string" && raw.trim() ? raw.split(",")
+    : [];
+  if (entries.length === 0) {
+    if (required) throw new ToolParamError(key, `${label} required`);
+    return undefined;
+  }
+  return entries.map((entry) => {
+    const value =
+      typeof entry === "number" ? entry
+      : typeof entry === "string" && entry.trim() ? Number(entry.trim())
+      : Number.NaN;
+    if (!Number.isFinite(value)) {
+      throw new ToolParamError(key, `${label} must be an array of numbers`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a parameter given as a JSON string (or passed through if it's
+ * already structured), optionally checking it against a JSON Schema.
+ */
+export function readJsonParam(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { schema?: Record<string, unknown> } = {},
+): unknown {
+  const { required = false, label = key, schema } = options;
+  let value = params[key];
+  if (typeof value === "string") {
+    if (!value.trim()) {
+      value = undefined;
+    } else {
+      try {
+        value = JSON.parse(value) as unknown;
+      } catch {
+        throw new ToolParamError(key, `${label} must be valid JSON`);
+      }
+    }
+  }
+  if (value === undefined || value === null) {
+    if (required) throw new ToolParamError(key, `${label} required`);
+    return undefined;
+  }
+  if (schema) {
+    const issues = validateSchema(schema, value);
+    if (issues.length > 0) {
+      throw new ToolParamError(key, `${label} is invalid:\n${formatSchemaIssues(issues)}`);
+    }
+  }
+  return value;
+}
+
+/**
+ * Read an object parameter (an object or a JSON string encoding one),
+ * optionally checking it against a JSON Schema for its fields.
+ */
+export function readObjectParam<T extends Record<string, unknown> = Record<string, unknown>>(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { required: true; schema?: Record<string, unknown> },
+): T;
+export function readObjectParam<T extends Record<string, unknown> = Record<string, unknown>>(
+  params: Record<string, unknown>,
+  key: string,
+  options?: ParamOptions & { schema?: Record<string, unknown> },
+): T | undefined;
+export function readObjectParam<T extends Record<string, unknown> = Record<string, unknown>>(
+  params: Record<string, unknown>,
+  key: string,
+  options: ParamOptions & { schema?: Record<string, unknown> } = {},
+): T | undefined {
+  const { label = key, schema } = options;
+  const value = readJsonParam(params, key, { ...options, schema: undefined });
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ToolParamError(key, `${label} must be an object`);
+  }
+  if (schema) {
+    const issues = validateSchema({ type: "object", ...schema }, value);
+    if (issues.length > 0) {
+      throw new ToolParamError(key, `${label} is invalid:\n${formatSchemaIssues(issues)}`);
+    }
+  }
+  return value as T;
+}
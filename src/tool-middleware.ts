@@ -0,0 +1,29 @@
+/**
+ * Tool Middleware
+ *
+ * Runs an external tool call through the session's ordered middleware chain.
+ */
+
+import type {
+  AgentToolResult,
+  ToolExecutionContext,
+  ToolMiddleware,
+} from "./types.js";
+
+/**
+ * Invoke `middleware` outermost-first around `execute`
+ */
+export function runToolMiddleware(
+  middleware: ToolMiddleware[],
+  ctx: ToolExecutionContext,
+  execute: (ctx: ToolExecutionContext) => Promise<AgentToolResult<unknown>>,
+): Promise<AgentToolResult<unknown>> {
+  const dispatch = (index: number, current: ToolExecutionContext): Promise<AgentToolResult<unknown>> => {
+    const layer = middleware[index];
+    if (!layer) {
+      return execute(current);
+    }
+    return layer(current, (next = current) => dispatch(index + 1, next));
+  };
+  return dispatch(0, ctx);
+}
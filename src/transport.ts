@@ -6,7 +6,7 @@
 
 import { spawn, type ChildProcess } from "node:child_process";
 import { createInterface, type Interface } from "node:readline";
-import type { InternalSessionOptions, WireMessage } from "./types.js";
+import type { InternalSessionOptions, Transport, WireMessage } from "./types.js";
 
 // All logging gated behind DEBUG_SDK env var
 function sdkLog(tag: string, ...args: unknown[]) {
@@ -189,7 +189,7 @@ export function buildCliArgs(options: InternalSessionOptions): string[] {
   return args;
 }
 
-export class SubprocessTransport {
+export class SubprocessTransport implements Transport {
   private process: ChildProcess | null = null;
   private stdout: Interface | null = null;
   private messageQueue: WireMessage[] = [];
@@ -0,0 +1,96 @@
+/**
+ * Turn Aggregation
+ *
+ * Folds the message stream of a single turn into a TurnResult.
+ */
+
+import { ToolCallAccumulator } from "./tool-call-accumulator.js";
+import type {
+  SDKErrorMessage,
+  SDKMessage,
+  SDKResultMessage,
+  SDKRetryMessage,
+  TurnResult,
+  TurnToolCall,
+} from "./types.js";
+
+export class TurnCollector {
+  readonly messages: SDKMessage[] = [];
+  private text = "";
+  private reasoning = "";
+  private toolCalls = new Map<string, TurnToolCall>();
+  private errors: SDKErrorMessage[] = [];
+  private retries: SDKRetryMessage[] = [];
+  private accumulator = new ToolCallAccumulator();
+  private firstMessageMs?: number;
+  private firstAssistantMs?: number;
+
+  constructor(readonly startedAt: number = Date.now()) {}
+
+  push(msg: SDKMessage): void {
+    const elapsed = Date.now() - this.startedAt;
+    this.messages.push(msg);
+    this.firstMessageMs ??= elapsed;
+
+    // Chunks are stitched here so pairing works whether or not the session
+    // already runs with accumulateToolCalls.
+    for (const out of this.accumulator.push(msg)) {
+      switch (out.type) {
+        case "assistant":
+          this.firstAssistantMs ??= elapsed;
+          this.text += out.content;
+          break;
+        case "reasoning":
+          this.reasoning += out.content;
+          break;
+        case "tool_call":
+          this.toolCalls.set(out.toolCallId, {
+            toolCallId: out.toolCallId,
+            toolName: out.toolName,
+            toolInput: out.toolInput,
+          });
+          break;
+        case "tool_result": {
+          const call = this.toolCalls.get(out.toolCallId);
+          if (call) {
+            call.result = out;
+          }
+          break;
+        }
+        case "error":
+          this.errors.push(out);
+          break;
+        case "retry":
+          this.retries.push(out);
+          break;
+      }
+    }
+  }
+
+  finish(result: SDKResultMessage): TurnResult {
+    // Calls whose arguments never completed still belong to the turn
+    for (const out of this.accumulator.flush()) {
+      this.toolCalls.set(out.toolCallId, {
+        toolCallId: out.toolCallId,
+        toolName: out.toolName,
+        toolInput: out.toolInput,
+      });
+    }
+
+    return {
+      text: this.text,
+      reasoning: this.reasoning,
+      toolCalls: Array.from(this.toolCalls.values()),
+      errors: this.errors,
+      retries: this.retries,
+      result,
+      messages: this.messages,
+      timings: {
+        startedAt: this.startedAt,
+        firstMessageMs: this.firstMessageMs,
+        firstAssistantMs: this.firstAssistantMs,
+        durationMs: Date.now() - this.startedAt,
+      },
+    };
+  }
+}
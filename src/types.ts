@@ -25,7 +25,13 @@ export type {
 } from "@letta-ai/letta-code/protocol";
 
 // Import types for use in this file
-import type { CreateBlock, CanUseToolResponse } from "@letta-ai/letta-code/protocol";
+import type {
+  CreateBlock,
+  CanUseToolResponse,
+  CanUseToolResponseAllow,
+  CanUseToolResponseDeny,
+  WireMessage,
+} from "@letta-ai/letta-code/protocol";
 
 // ═══════════════════════════════════════════════════════════════
 // MESSAGE CONTENT TYPES (for multimodal support)
@@ -163,7 +169,10 @@ export interface AgentToolResultContent {
  */
 export interface AgentToolResult<T> {
   content: AgentToolResultContent[];
+  /** Structured data for SDK consumers; surfaced on the matching tool_result message */
   details?: T;
+  /** Report the result to the model as an error without throwing */
+  isError?: boolean;
 }
 
 /**
@@ -187,6 +196,18 @@ export interface AgentTool<TParams, TResult> {
   /** JSON Schema for parameters (TypeBox or plain object) */
   parameters: TParams;
 
+  /** Abort and report an error if execution takes longer than this (ms) */
+  timeoutMs?: number;
+
+  /**
+   * Max simultaneous executions of this tool; excess calls are queued. A call
+   * that timed out or was aborted holds its slot until execute() settles.
+   */
+  maxConcurrency?: number;
+
+  /** Release resources held by the tool; called once when a Session using it closes */
+  dispose?: () => void | Promise<void>;
+
   /** Execution function */
   execute: (
     toolCallId: string,
@@ -196,23 +217,352 @@ export interface AgentTool<TParams, TResult> {
   ) => Promise<AgentToolResult<TResult>>;
 }
 
+/**
+ * Standard Schema v1 (https://standardschema.dev), implemented by Zod,
+ * Valibot, ArkType and others. Declared structurally so no validation
+ * library is required at runtime.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    /** Standard JSON Schema extension, when the library supports it */
+    readonly jsonSchema?: {
+      readonly input: (options: { target: string }) => Record<string, unknown>;
+    };
+  };
+}
+
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+/**
+ * Argument type produced by a tool schema: the output type of a Standard
+ * Schema, TypeBox's static type, or a plain record for JSON Schema.
+ */
+export type InferToolArgs<S> =
+  S extends StandardSchemaV1<unknown, infer O>
+    ? O
+    : S extends { static: infer T }
+      ? T
+      : Record<string, unknown>;
+
+/**
+ * Options for defineTool()
+ */
+export interface DefineToolOptions<S, TDetails> {
+  name: string;
+  /** Display label (defaults to name) */
+  label?: string;
+  description: string;
+  /** Standard Schema (e.g. Zod), TypeBox, or plain JSON Schema for the arguments */
+  schema: S;
+  /**
+   * JSON Schema sent to the CLI. Only needed for Standard Schema libraries
+   * without Standard JSON Schema support, e.g. `z.toJSONSchema(schema)`.
+   */
+  parameters?: Record<string, unknown>;
+  execute: (
+    toolCallId: string,
+    args: InferToolArgs<S>,
+    signal?: AbortSignal,
+    onUpdate?: AgentToolUpdateCallback<TDetails>,
+  ) => Promise<AgentToolResult<TDetails>>;
+}
+
+/**
+ * Context passed through the tool middleware chain for one external tool call
+ */
+export interface ToolExecutionContext {
+  toolName: string;
+  toolCallId: string;
+  /** Validated arguments. Pass a modified context to next() to rewrite them. */
+  input: Record<string, unknown>;
+  tool: AnyAgentTool;
+  sessionId: string | null;
+  agentId: string | null;
+  conversationId: string | null;
+  /** Aborted when the call is cancelled (interrupt, close, turn abort) */
+  signal: AbortSignal;
+}
+
+/**
+ * Tool middleware. Call `next()` to continue down the chain (it may be called
+ * more than once, e.g. to retry), or return a result to short-circuit.
+ *
+ * @example
+ * ```typescript
+ * const timing: ToolMiddleware = async (ctx, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${ctx.toolName} took ${Date.now() - start}ms`);
+ *   }
+ * };
+ * ```
+ */
+export type ToolMiddleware = (
+  ctx: ToolExecutionContext,
+  next: (ctx?: ToolExecutionContext) => Promise<AgentToolResult<unknown>>,
+) => Promise<AgentToolResult<unknown>>;
+
 /**
  * Convenience type for tools with any params
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type AnyAgentTool = AgentTool<any, unknown>;
 
+// ═══════════════════════════════════════════════════════════════
+// TRANSPORT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Bidirectional wire channel between a Session and the Letta Code CLI.
+ *
+ * The default implementation is SubprocessTransport, which spawns the CLI and
+ * speaks stream-json over stdin/stdout. Alternate implementations (in-memory,
+ * socket, recorded) can be injected via the `transport` session option.
+ *
+ * `messages()` may be called more than once over the transport's lifetime
+ * (initialize() and the background pump each iterate it), so implementations
+ * should read from a shared queue rather than restarting the stream.
+ */
+export interface Transport {
+  /** Open the channel. Called once, before any write(). */
+  connect(): Promise<void>;
+
+  /** Send a wire message (user message, control_request, control_response) */
+  write(data: object): Promise<void>;
+
+  /** Iterate inbound wire messages until the transport closes */
+  messages(): AsyncIterable<WireMessage>;
+
+  /** Close the channel and release any pending readers */
+  close(): void;
+
+  /** Whether the channel has been closed (explicitly or by the peer) */
+  readonly isClosed: boolean;
+}
+
+/**
+ * Builds a transport from the resolved session options. Use this to wrap the
+ * default transport, e.g. `(opts) => new RecordingTransport(new SubprocessTransport(opts))`.
+ */
+export type TransportFactory = (options: InternalSessionOptions) => Transport;
+
+// ═══════════════════════════════════════════════════════════════
+// PERMISSION POLICY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * What a permission rule does when it matches. "ask" defers to the policy's
+ * `onAsk` callback (denied if there is none).
+ */
+export type PermissionEffect = "allow" | "deny" | "ask";
+
+/**
+ * Conditions a permission rule matches on. Every given condition must hold.
+ */
+export interface PermissionRuleMatch {
+  /** Tool name(s); `*` and `?` globs allowed, e.g. "mcp__github__*" */
+  tool?: string | string[];
+  /**
+   * Bash command glob(s), e.g. "git status*". Compound commands (`&&`, `;`,
+   * `|`, ...) are split: allow rules must match every part, deny and ask
+   * rules match if any part does. Implies `tool: "Bash"`.
+   */
+  command?: string | string[];
+  /**
+   * File path glob(s) for tools that take a path (Read, Write, Edit, ...),
+   * relative to the policy's cwd, e.g. "src/**". Absolute globs match
+   * absolute paths.
+   */
+  path?: string | string[];
+  /** Arbitrary predicate over the request */
+  when?: (toolName: string, toolInput: Record<string, unknown>) => boolean;
+}
+
+/**
+ * A compiled permission rule
+ */
+export interface PermissionRule extends PermissionRuleMatch {
+  effect: PermissionEffect;
+  /** Shown in traces; defaults to a description of the match */
+  name?: string;
+  /** Deny message sent to the agent */
+  message?: string;
+  /** For deny rules: also stop the agent's turn */
+  interrupt?: boolean;
+}
+
+/**
+ * One rule evaluation in a decision trace
+ */
+export interface PermissionTraceEntry {
+  rule: string;
+  effect: PermissionEffect;
+  matched: boolean;
+  /** Why the rule did or didn't match */
+  reason: string;
+}
+
+/**
+ * Outcome of evaluating a permission policy
+ */
+export interface PermissionDecision {
+  behavior: PermissionEffect;
+  /** The rule that decided, or undefined when the default applied */
+  rule?: string;
+  message?: string;
+  /** Set when a deny rule with `interrupt` decided */
+  interrupt?: boolean;
+  /** Rules evaluated, in order, up to and including the deciding one */
+  trace: PermissionTraceEntry[];
+}
+
+/**
+ * Options for new PermissionPolicy()
+ */
+export interface PermissionPolicyOptions {
+  /** Directory that relative path globs are resolved against (default: process.cwd()) */
+  cwd?: string;
+  /** Decision when no rule matches (default: "deny") */
+  defaultEffect?: PermissionEffect;
+  /** Resolves "ask" decisions, e.g. by prompting a human */
+  onAsk?: CanUseToolCallback;
+  /** Called with every decision, e.g. for logging the trace */
+  onDecision?: (toolName: string, toolInput: Record<string, unknown>, decision: PermissionDecision) => void;
+}
+
+/**
+ * How a can_use_tool request was decided:
+ * - "bypass": auto-allowed by permissionMode "bypassPermissions"
+ * - "session-rule": answered from a rule saved by an earlier "always allow"
+ * - "callback": decided by canUseTool (including a callback that threw)
+ * - "auto-allow": allowed without a callback (e.g. EnterPlanMode)
+ * - "default-deny": denied because no callback is registered
+ */
+export type PermissionDecisionMechanism =
+  | "bypass"
+  | "session-rule"
+  | "callback"
+  | "auto-allow"
+  | "default-deny";
+
+/**
+ * Audit record for one answered can_use_tool request
+ */
+export interface PermissionAuditRecord {
+  /** ISO-8601 time the request arrived */
+  timestamp: string;
+  requestId: string;
+  toolCallId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  behavior: "allow" | "deny";
+  mechanism: PermissionDecisionMechanism;
+  /** Deny message */
+  message?: string;
+  interrupt?: boolean;
+  /** Input replacement returned by the callback */
+  updatedInput?: Record<string, unknown>;
+  updatedPermissions?: PermissionUpdate[];
+  /** Set when the callback threw */
+  error?: string;
+  /** Set when the response couldn't be sent to the CLI */
+  writeError?: string;
+  /** Time from request to response, in ms */
+  latencyMs: number;
+  permissionMode: PermissionMode;
+  turn: number;
+  agentId: string | null;
+  conversationId: string | null;
+  sessionId: string | null;
+}
+
+/**
+ * Receives every permission decision. Errors are logged and ignored.
+ */
+export type PermissionDecisionHook = (record: PermissionAuditRecord) => void | Promise<void>;
+
 // ═══════════════════════════════════════════════════════════════
 // SESSION OPTIONS
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Where a permission update is persisted. "session" lasts for the CLI
+ * process; the others are written to the matching settings file.
+ */
+export type PermissionUpdateDestination = "session" | "project" | "local" | "user";
+
+/**
+ * A permission rule in the CLI's format: a tool name plus optional content,
+ * e.g. `{ toolName: "Bash", ruleContent: "npm test:*" }` (command prefix) or
+ * `{ toolName: "Edit", ruleContent: "src/**" }` (path glob).
+ */
+export interface PermissionRuleValue {
+  toolName: string;
+  ruleContent?: string;
+}
+
+/**
+ * A permission change returned alongside an allow decision ("always allow")
+ */
+export interface PermissionUpdate {
+  type: "addRules";
+  rules: PermissionRuleValue[];
+  behavior: PermissionEffect;
+  destination: PermissionUpdateDestination;
+}
+
+/**
+ * What a canUseTool callback returns. Allow decisions may carry permission
+ * updates, which are forwarded to the CLI and also remembered by the
+ * session so matching requests skip the callback.
+ */
+export type CanUseToolCallbackResult =
+  | (Omit<CanUseToolResponseAllow, "updatedPermissions"> & { updatedPermissions?: PermissionUpdate[] })
+  | CanUseToolResponseDeny;
+
+/**
+ * Request details passed to canUseTool as its third argument
+ */
+export interface CanUseToolContext {
+  /** Matches the `toolCallId` of the SDKToolCallMessage for this call */
+  toolCallId: string;
+  agentId: string | null;
+  conversationId: string | null;
+  sessionId: string | null;
+  permissionMode: PermissionMode;
+  /** Permission updates the CLI suggests for "always allow" */
+  suggestions: PermissionUpdate[];
+  /** Path outside the allowed directories that triggered the request, if any */
+  blockedPath: string | null;
+  /** 1-based number of the turn (send() call) this request belongs to */
+  turn: number;
+  /** Aborted when the turn is cancelled or the session closes */
+  signal: AbortSignal;
+}
+
 /**
  * Callback for custom permission handling.
  */
 export type CanUseToolCallback = (
   toolName: string,
   toolInput: Record<string, unknown>,
-) => Promise<CanUseToolResponse> | CanUseToolResponse;
+  context: CanUseToolContext,
+) => Promise<CanUseToolCallbackResult> | CanUseToolCallbackResult;
 
 /**
  * Internal session options used by Session/Transport classes.
@@ -253,16 +603,31 @@ export interface InternalSessionOptions {
   disallowedTools?: string[];
   permissionMode?: PermissionMode;
   canUseTool?: CanUseToolCallback;
+  onPermissionDecision?: PermissionDecisionHook;
 
   // Custom tools
   tools?: AnyAgentTool[];
+  toolMiddleware?: ToolMiddleware[];
+  toolTimeoutMs?: number;
+  toolMaxConcurrency?: number;
 
   // Process settings
   cwd?: string;
 
+  /** Custom transport (defaults to a SubprocessTransport built from these options) */
+  transport?: Transport | TransportFactory;
+
   /** If true, pass --include-partial-messages to CLI for token-level stream_event chunks */
   includePartialMessages?: boolean;
 
+  /** If true, stitch tool_call chunks into tool_call_delta + one final tool_call */
+  accumulateToolCalls?: boolean;
+
+  // Stream buffering
+  streamBufferPolicy?: StreamBufferPolicy;
+  maxBufferedStreamMessages?: number;
+  onStreamMessageDropped?: StreamMessageDroppedCallback;
+
   /**
    * Controls how the git-backed memory pull runs at session startup.
    * Maps to --memfs-startup <blocking|background|skip> CLI flag.
@@ -270,6 +635,32 @@ export interface InternalSessionOptions {
   memfsStartup?: "blocking" | "background" | "skip";
 }
 
+/**
+ * What the session does when stream messages arrive faster than the
+ * consumer reads them and the buffer is full.
+ *
+ * - "drop-oldest": discard the oldest droppable buffered message
+ * - "drop-partials-only": discard only stream_event partials; never lose a
+ *   complete message
+ * - "block": pause reading from the CLI until the consumer catches up
+ * - "unbounded": never discard; the buffer grows without limit
+ *
+ * `result`, `error` and `tool_call` messages are never dropped under any policy.
+ */
+export type StreamBufferPolicy =
+  | "drop-oldest"
+  | "drop-partials-only"
+  | "block"
+  | "unbounded";
+
+/**
+ * Called whenever a buffered stream message is discarded.
+ */
+export type StreamMessageDroppedCallback = (
+  message: SDKMessage,
+  totalDropped: number,
+) => void;
+
 export type PermissionMode =
   | "default"
   | "acceptEdits"
@@ -299,6 +690,13 @@ export interface CreateSessionOptions {
   /** Working directory for the CLI process */
   cwd?: string;
 
+  /**
+   * Custom transport to the CLI, or a factory that builds one from the
+   * resolved session options. Defaults to spawning the Letta Code CLI
+   * as a subprocess. Useful for in-memory fakes, sockets or recorded sessions.
+   */
+  transport?: Transport | TransportFactory;
+
   /**
    * Enable/disable memory filesystem for this agent before running.
    * true -> `--memfs`, false -> `--no-memfs`, undefined -> leave unchanged.
@@ -325,18 +723,56 @@ export interface CreateSessionOptions {
   /** Custom permission callback - called when tool needs approval */
   canUseTool?: CanUseToolCallback;
 
+  /**
+   * Called after every can_use_tool request is answered, however it was
+   * decided. Use createJsonlAuditSink() for a JSONL audit log.
+   */
+  onPermissionDecision?: PermissionDecisionHook;
+
   /**
    * Custom tools that execute locally in the SDK process.
    * These tools are registered with the CLI and executed when the LLM calls them.
    */
   tools?: AnyAgentTool[];
 
+  /**
+   * Middleware wrapped around every external tool execution, outermost first.
+   * Runs after argument validation, so `ctx.input` already matches the schema.
+   */
+  toolMiddleware?: ToolMiddleware[];
+
+  /** Default `timeoutMs` for tools that don't set their own */
+  toolTimeoutMs?: number;
+
+  /** Default per-tool `maxConcurrency` for tools that don't set their own */
+  toolMaxConcurrency?: number;
+
   /**
    * If true, pass --include-partial-messages to CLI to receive token-level
    * stream_event chunks for incremental assistant/reasoning rendering.
    */
   includePartialMessages?: boolean;
 
+  /**
+   * If true, streamed tool call chunks are buffered per toolCallId: each chunk
+   * is surfaced as a `tool_call_delta`, followed by exactly one `tool_call`
+   * with fully parsed `toolInput` once the arguments are complete.
+   */
+  accumulateToolCalls?: boolean;
+
+  /**
+   * Overflow policy for messages buffered between the CLI and stream().
+   * Defaults to "drop-oldest". Note that "block" also pauses permission and
+   * external tool requests until the stream is read.
+   */
+  streamBufferPolicy?: StreamBufferPolicy;
+
+  /** Buffer bound used by the drop/block policies. Defaults to 100. */
+  maxBufferedStreamMessages?: number;
+
+  /** Called whenever a buffered stream message is discarded */
+  onStreamMessageDropped?: StreamMessageDroppedCallback;
+
   /**
    * Controls how the git-backed memory pull runs at session startup.
    *
@@ -393,6 +829,13 @@ export interface CreateAgentOptions {
   /** Working directory for the CLI process */
   cwd?: string;
 
+  /**
+   * Custom transport to the CLI, or a factory that builds one from the
+   * resolved session options. Defaults to spawning the Letta Code CLI
+   * as a subprocess. Useful for in-memory fakes, sockets or recorded sessions.
+   */
+  transport?: Transport | TransportFactory;
+
   /** Custom permission callback - called when tool needs approval */
   canUseTool?: CanUseToolCallback;
 
@@ -462,6 +905,23 @@ export interface SDKToolCallMessage {
   toolInput: Record<string, unknown>;
   /** Raw unparsed arguments string from the wire for consumer-side accumulation. */
   rawArguments?: string;
+  /** Set on approval_request_message chunks, which restate the full arguments */
+  approval?: boolean;
+  uuid: string;
+}
+
+/**
+ * Incremental tool call arguments, emitted when tool call accumulation is
+ * enabled. A completed SDKToolCallMessage follows once arguments are complete.
+ */
+export interface SDKToolCallDeltaMessage {
+  type: "tool_call_delta";
+  toolCallId: string;
+  toolName: string;
+  /** Argument text carried by this chunk */
+  argumentsDelta: string;
+  /** All argument text received so far for this toolCallId */
+  accumulatedArguments: string;
   uuid: string;
 }
 
@@ -470,9 +930,23 @@ export interface SDKToolResultMessage {
   toolCallId: string;
   content: string;
   isError: boolean;
+  /** `details` returned by the SDK-side tool, when it was an external tool */
+  details?: unknown;
   uuid: string;
 }
 
+/**
+ * Partial output reported by an external tool's `onUpdate` callback while it
+ * is still executing.
+ */
+export interface SDKToolProgressMessage {
+  type: "tool_progress";
+  toolCallId: string;
+  toolName: string;
+  content: AgentToolResultContent[];
+  details?: unknown;
+}
+
 export interface SDKReasoningMessage {
   type: "reasoning";
   content: string;
@@ -488,6 +962,23 @@ export interface SDKResultMessage {
   durationMs: number;
   totalCostUsd?: number;
   conversationId: string | null;
+  /**
+   * True when the turn was cancelled through a `signal`, `timeoutMs`, or a
+   * canUseTool denial with `interrupt: true`; `error` is then "aborted",
+   * "timeout" or "permission_interrupt".
+   */
+  aborted?: boolean;
+  /** The denial that ended the turn, when `error` is "permission_interrupt" */
+  permissionInterrupt?: SDKPermissionInterrupt;
+}
+
+/**
+ * A canUseTool denial that interrupted the turn
+ */
+export interface SDKPermissionInterrupt {
+  toolName: string;
+  toolCallId: string;
+  message: string;
 }
 
 export interface SDKStreamEventDeltaPayload {
@@ -570,13 +1061,129 @@ export type SDKMessage =
   | SDKInitMessage
   | SDKAssistantMessage
   | SDKToolCallMessage
+  | SDKToolCallDeltaMessage
   | SDKToolResultMessage
+  | SDKToolProgressMessage
   | SDKReasoningMessage
   | SDKResultMessage
   | SDKStreamEventMessage
   | SDKErrorMessage
   | SDKRetryMessage;
 
+// ═══════════════════════════════════════════════════════════════
+// TURN API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * JSON Schema describing a structured turn output. TypeBox schemas are
+ * accepted as-is (they are JSON Schema objects).
+ */
+export type OutputSchema = Record<string, unknown>;
+
+/**
+ * Static type of an output schema: TypeBox's phantom `static` when present,
+ * otherwise unknown.
+ */
+export type InferOutput<S> = S extends { static: infer T } ? T : unknown;
+
+/**
+ * A single schema violation. `path` is a JSON Pointer into the validated
+ * value ("" for the root).
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Why structured output could not be produced.
+ */
+export interface StructuredOutputError {
+  message: string;
+  /** Violations from the last attempt (empty if the turn itself failed) */
+  issues: SchemaIssue[];
+  /** Assistant text of the last attempt */
+  rawText: string;
+  /** Turns spent, including the original one */
+  attempts: number;
+}
+
+/**
+ * Cancellation options for send(), stream() and run().
+ *
+ * When the signal fires or the timeout elapses, the SDK interrupts the turn,
+ * aborts in-flight external tool calls, and the stream ends with an aborted
+ * SDKResultMessage.
+ */
+export interface TurnControlOptions {
+  signal?: AbortSignal;
+  /** Abort the turn this many ms after the call */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for session.run().
+ */
+export interface RunOptions extends TurnControlOptions {
+  /** Called with every streamed message as it arrives (for live UI) */
+  onMessage?: (message: SDKMessage) => void | Promise<void>;
+  /**
+   * Ask for a JSON reply matching this schema. The reply is extracted and
+   * validated into `TurnResult.output`; invalid replies trigger correction turns.
+   */
+  outputSchema?: OutputSchema;
+  /** Max correction turns after an invalid structured reply (default: 2) */
+  maxOutputCorrections?: number;
+}
+
+/**
+ * A tool call paired with its result (if one arrived before the turn ended).
+ */
+export interface TurnToolCall {
+  toolCallId: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  result?: SDKToolResultMessage;
+}
+
+/**
+ * Wall-clock timings for a turn, measured SDK-side.
+ */
+export interface TurnTimings {
+  /** Epoch ms when run() was called */
+  startedAt: number;
+  /** ms until the first streamed message */
+  firstMessageMs?: number;
+  /** ms until the first assistant text */
+  firstAssistantMs?: number;
+  /** ms until the result message */
+  durationMs: number;
+}
+
+/**
+ * Aggregated outcome of a single turn, returned by session.run().
+ * With `outputSchema`, this describes the last turn (after any corrections).
+ */
+export interface TurnResult<T = unknown> {
+  /** All assistant text in the turn, concatenated in order */
+  text: string;
+  /** All reasoning text in the turn, concatenated in order */
+  reasoning: string;
+  /** Completed tool calls in call order, each paired with its result */
+  toolCalls: TurnToolCall[];
+  errors: SDKErrorMessage[];
+  retries: SDKRetryMessage[];
+  /** Terminal result. Synthesized as a failure if the stream ended without one. */
+  result: SDKResultMessage;
+  /** Every message streamed during the turn, in order */
+  messages: SDKMessage[];
+  timings: TurnTimings;
+  /** Validated structured output (only with `outputSchema`) */
+  output?: T;
+  /** Set instead of `output` when structured output failed */
+  outputError?: StructuredOutputError;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // LIST MESSAGES API
 // ═══════════════════════════════════════════════════════════════
@@ -5,6 +5,7 @@
  */
 
 import type { 
+  AnyAgentTool,
   CreateSessionOptions,
   CreateAgentOptions,
   MemoryItem, 
@@ -12,6 +13,7 @@ import type {
   SystemPromptPreset,
   SkillSource,
   SleeptimeOptions,
+  StreamBufferPolicy,
 } from "./types.js";
 
 const VALID_SKILL_SOURCES: SkillSource[] = [
@@ -21,6 +23,13 @@ const VALID_SKILL_SOURCES: SkillSource[] = [
   "project",
 ];
 
+const VALID_STREAM_BUFFER_POLICIES: StreamBufferPolicy[] = [
+  "drop-oldest",
+  "drop-partials-only",
+  "block",
+  "unbounded",
+];
+
 /**
  * Extract block labels from memory items.
  */
@@ -102,6 +111,74 @@ function validateSleeptimeOptions(sleeptime: SleeptimeOptions | undefined): void
   }
 }
 
+function validateStreamBufferOptions(options: CreateSessionOptions): void {
+  if (
+    options.streamBufferPolicy !== undefined &&
+    !VALID_STREAM_BUFFER_POLICIES.includes(options.streamBufferPolicy)
+  ) {
+    throw new Error(
+      `Invalid streamBufferPolicy '${String(options.streamBufferPolicy)}'. Valid values: ${VALID_STREAM_BUFFER_POLICIES.join(", ")}`
+    );
+  }
+
+  if (
+    options.maxBufferedStreamMessages !== undefined &&
+    (!Number.isInteger(options.maxBufferedStreamMessages) ||
+      options.maxBufferedStreamMessages <= 0)
+  ) {
+    throw new Error(
+      "Invalid maxBufferedStreamMessages. Expected a positive integer."
+    );
+  }
+}
+
+/**
+ * Validate toolMiddleware is a list of functions.
+ */
+function validateToolMiddleware(middleware: CreateSessionOptions["toolMiddleware"]): void {
+  if (middleware === undefined) {
+    return;
+  }
+  if (!Array.isArray(middleware) || middleware.some((m) => typeof m !== "function")) {
+    throw new Error("Invalid toolMiddleware. Expected an array of functions.");
+  }
+}
+
+/**
+ * Validate onPermissionDecision is a function.
+ */
+function validatePermissionDecisionHook(hook: CreateSessionOptions["onPermissionDecision"]): void {
+  if (hook !== undefined && typeof hook !== "function") {
+    throw new Error("Invalid onPermissionDecision. Expected a function.");
+  }
+}
+
+function checkPositiveInteger(value: number | undefined, name: string): void {
+  if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+    throw new Error(`Invalid ${name}. Expected a positive integer.`);
+  }
+}
+
+/**
+ * Validate one tool's timeout / concurrency limits (at creation, and for tools
+ * added later through registerTool / setTools).
+ */
+export function validateAgentToolLimits(tool: AnyAgentTool): void {
+  checkPositiveInteger(tool.timeoutMs, `timeoutMs for tool '${tool.name}'`);
+  checkPositiveInteger(tool.maxConcurrency, `maxConcurrency for tool '${tool.name}'`);
+}
+
+/**
+ * Validate tool timeout / concurrency limits, session-wide and per tool.
+ */
+function validateToolLimits(options: CreateSessionOptions): void {
+  checkPositiveInteger(options.toolTimeoutMs, "toolTimeoutMs");
+  checkPositiveInteger(options.toolMaxConcurrency, "toolMaxConcurrency");
+  for (const tool of options.tools ?? []) {
+    validateAgentToolLimits(tool);
+  }
+}
+
 /**
  * Validate CreateSessionOptions (used by createSession and resumeSession).
  */
@@ -113,6 +190,10 @@ export function validateCreateSessionOptions(options: CreateSessionOptions): voi
 
   validateSkillSources(options.skillSources);
   validateSleeptimeOptions(options.sleeptime);
+  validateStreamBufferOptions(options);
+  validateToolMiddleware(options.toolMiddleware);
+  validateToolLimits(options);
+  validatePermissionDecisionHook(options.onPermissionDecision);
 }
 
 /**